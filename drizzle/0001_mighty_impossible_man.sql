@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "fouroneone_token_budget" (
+	"user_id" varchar(255) NOT NULL,
+	"period" varchar(7) NOT NULL,
+	"token_limit" integer NOT NULL,
+	"tokens_used" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "fouroneone_token_budget_user_id_period_pk" PRIMARY KEY("user_id","period")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_token_budget" ADD CONSTRAINT "fouroneone_token_budget_user_id_fouroneone_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."fouroneone_user"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "fouroneone_usage" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"chat_id" varchar(255),
+	"message_id" varchar(255),
+	"description" text NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"total_tokens" integer NOT NULL,
+	"cost_usd" double precision NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_usage" ADD CONSTRAINT "fouroneone_usage_user_id_fouroneone_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."fouroneone_user"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_usage" ADD CONSTRAINT "fouroneone_usage_chat_id_fouroneone_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."fouroneone_chat"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_user_id_idx" ON "fouroneone_usage" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_chat_id_idx" ON "fouroneone_usage" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_created_at_idx" ON "fouroneone_usage" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "fouroneone_url_policy_rule" (
+	"domain" varchar(255) PRIMARY KEY NOT NULL,
+	"action" varchar(5) NOT NULL,
+	"created_by_id" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_url_policy_rule" ADD CONSTRAINT "fouroneone_url_policy_rule_created_by_id_fouroneone_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."fouroneone_user"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
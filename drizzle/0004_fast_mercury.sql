@@ -0,0 +1,2 @@
+ALTER TABLE "fouroneone_chat" ADD COLUMN "source_policy" json;--> statement-breakpoint
+ALTER TABLE "fouroneone_user" ADD COLUMN "source_policy" json;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "fouroneone_answer_cache" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"question" text NOT NULL,
+	"embedding" json NOT NULL,
+	"location" varchar(255) NOT NULL,
+	"answer" text NOT NULL,
+	"sources" json NOT NULL,
+	"search_history" json NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "answer_cache_location_created_at_idx" ON "fouroneone_answer_cache" USING btree ("location","created_at");
\ No newline at end of file
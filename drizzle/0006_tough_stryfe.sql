@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS "answer_cache_location_created_at_idx";--> statement-breakpoint
+ALTER TABLE "fouroneone_answer_cache" ADD COLUMN "research_mode" varchar(10) DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "answer_cache_lookup_idx" ON "fouroneone_answer_cache" USING btree ("location","research_mode","created_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "fouroneone_paused_research" (
+	"chat_id" varchar(255) PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"plan" json NOT NULL,
+	"research_mode" varchar(10) NOT NULL,
+	"user_location" json,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_paused_research" ADD CONSTRAINT "fouroneone_paused_research_chat_id_fouroneone_chat_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."fouroneone_chat"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_paused_research" ADD CONSTRAINT "fouroneone_paused_research_user_id_fouroneone_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."fouroneone_user"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
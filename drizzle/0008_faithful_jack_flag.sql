@@ -0,0 +1,2 @@
+ALTER TABLE "fouroneone_message" DROP CONSTRAINT "fouroneone_message_pkey";--> statement-breakpoint
+ALTER TABLE "fouroneone_message" ADD CONSTRAINT "fouroneone_message_chat_id_id_pk" PRIMARY KEY("chat_id","id");
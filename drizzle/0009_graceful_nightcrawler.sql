@@ -0,0 +1,13 @@
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+-- Existing answers don't record who asked, so they can't be scoped to a user
+DELETE FROM "fouroneone_answer_cache";--> statement-breakpoint
+DROP INDEX IF EXISTS "answer_cache_lookup_idx";--> statement-breakpoint
+ALTER TABLE "fouroneone_answer_cache" ALTER COLUMN "embedding" SET DATA TYPE vector(768) USING "embedding"::text::vector(768);--> statement-breakpoint
+ALTER TABLE "fouroneone_answer_cache" ADD COLUMN "user_id" varchar(255) NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "fouroneone_answer_cache" ADD CONSTRAINT "fouroneone_answer_cache_user_id_fouroneone_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."fouroneone_user"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "answer_cache_lookup_idx" ON "fouroneone_answer_cache" USING btree ("user_id","location","research_mode","created_at");
\ No newline at end of file
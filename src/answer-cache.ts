@@ -0,0 +1,151 @@
+import { embed, type UIMessageStreamWriter } from "ai";
+import { randomUUID } from "crypto";
+import { env } from "~/env";
+import { addFaviconsToSources } from "~/favicon-utils";
+import { embeddingModel } from "~/models";
+import { findCachedAnswer, saveCachedAnswer } from "~/server/db/queries";
+import type { SystemContext } from "~/system-context";
+import type { OurMessage, SearchSource } from "~/types";
+
+export interface CachedAnswer {
+  question: string;
+  answer: string;
+  sources: SearchSource[];
+  createdAt: Date;
+  similarity: number;
+}
+
+export interface AnswerCacheLookup {
+  // Whose cache the fresh answer is saved to
+  userId: string;
+  // Kept so the fresh answer can be saved without embedding the question again
+  embedding: number[];
+  cached?: CachedAnswer;
+}
+
+// Answers can depend on where the question was asked from ("near me",
+// local laws), so only questions from the same place are compared
+const getLocationKey = (ctx: SystemContext) => {
+  const { country, city } = ctx.getUserLocation() ?? {};
+  return [country, city].filter(Boolean).join("/").toLowerCase();
+};
+
+/**
+ * Whether this request can use the answer cache. Only opening questions
+ * qualify: a follow-up leans on the conversation before it, which the
+ * cached answer knows nothing about, except for a refresh, which repeats
+ * the question it replaces. A source policy changes which sites an answer
+ * draws on, so those requests are researched afresh too.
+ */
+export const isAnswerCacheable = (ctx: SystemContext, refresh = false) => {
+  if (env.SEMANTIC_CACHE !== "true") {
+    return false;
+  }
+
+  const userMessages = ctx
+    .getFullConversationMessages()
+    .filter((message) => message.role === "user");
+  const { includeDomains, excludeDomains, preferredDomains } =
+    ctx.getSourcePolicy();
+
+  return (
+    (userMessages.length === 1 || refresh) &&
+    includeDomains.length + excludeDomains.length + preferredDomains.length === 0
+  );
+};
+
+/**
+ * Embed the latest question and find the most similar one the user asked
+ * recently. With `refresh`, only the embedding is returned, so the
+ * question gets researched again and the new answer saved.
+ */
+export const lookupCachedAnswer = async (
+  ctx: SystemContext,
+  opts: { userId: string; refresh?: boolean; langfuseTraceId?: string },
+): Promise<AnswerCacheLookup> => {
+  const { userId, refresh, langfuseTraceId } = opts;
+
+  const { embedding, usage } = await embed({
+    model: embeddingModel,
+    value: ctx.getLatestUserMessage(),
+    experimental_telemetry: langfuseTraceId ? {
+      isEnabled: true,
+      functionId: "embed-question",
+      metadata: {
+        langfuseTraceId: langfuseTraceId,
+      },
+    } : {
+      isEnabled: false,
+    },
+  });
+
+  ctx.reportUsage("embed-question", {
+    promptTokens: usage.tokens,
+    completionTokens: 0,
+    totalTokens: usage.tokens,
+  }, embeddingModel.modelId);
+
+  if (refresh) {
+    return { userId, embedding };
+  }
+
+  const cached = await findCachedAnswer({
+    userId,
+    location: getLocationKey(ctx),
+    researchMode: ctx.getResearchDepth().mode,
+    since: new Date(Date.now() - env.SEMANTIC_CACHE_MAX_AGE_HOURS * 60 * 60 * 1000),
+    embedding,
+    minSimilarity: env.SEMANTIC_CACHE_MIN_SIMILARITY,
+  });
+
+  return { userId, embedding, cached };
+};
+
+/**
+ * Save the answer researched for the latest question, along with the
+ * sources and searches behind it
+ */
+export const saveAnswerToCache = async (
+  ctx: SystemContext,
+  { userId, embedding }: AnswerCacheLookup,
+  answer: string,
+) => {
+  await saveCachedAnswer({
+    userId,
+    question: ctx.getLatestUserMessage(),
+    embedding,
+    location: getLocationKey(ctx),
+    researchMode: ctx.getResearchDepth().mode,
+    answer,
+    sources: ctx.getSources(),
+    searchHistory: ctx.getSearchHistoryEntries(),
+  });
+};
+
+/**
+ * Send a cached answer to the UI as if it had just been researched,
+ * flagged with when it was and for which question
+ */
+export const writeCachedAnswer = (
+  cached: CachedAnswer,
+  writeMessagePart: UIMessageStreamWriter<OurMessage>["write"],
+) => {
+  writeMessagePart({
+    type: "data-cachedAnswer",
+    data: {
+      question: cached.question,
+      cachedAt: cached.createdAt.toISOString(),
+      similarity: cached.similarity,
+    },
+  });
+
+  writeMessagePart({
+    type: "data-sources",
+    data: addFaviconsToSources(cached.sources),
+  });
+
+  const id = randomUUID();
+  writeMessagePart({ type: "text-start", id });
+  writeMessagePart({ type: "text-delta", id, delta: cached.answer });
+  writeMessagePart({ type: "text-end", id });
+};
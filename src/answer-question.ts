@@ -227,7 +227,7 @@ Remember: You're that friend who always comes through with the best info and exp
       completionTokens: usage.outputTokens ?? 0,
       totalTokens: usage.totalTokens ?? 0,
     };
-    context.reportUsage("answer-question", metrics);
+    context.reportUsage("answer-question", metrics, defaultModel.modelId);
   });
 
   return result;
@@ -0,0 +1,55 @@
+import { getAdmin } from "~/server/auth/admin";
+import { checkRedisHealth, RedisUnavailableError } from "~/server/redis/client";
+import { CACHE_PREFIXES, purgeCache } from "~/server/redis/redis";
+
+// A cache prefix such as "summarizeURL", optionally with a version ("summarizeURL:v1")
+const PREFIX_PATTERN = new RegExp(`^(${CACHE_PREFIXES.join("|")})(:v\\d+)?$`);
+
+// Whether Redis is reachable, and how often each consumer has had to do without it
+export async function GET() {
+  try {
+    const { error } = await getAdmin();
+    if (error) {
+      return error;
+    }
+
+    const health = await checkRedisHealth();
+    return Response.json(health, {
+      status: health.status === "up" ? 200 : 503,
+    });
+  } catch (error) {
+    console.error("Cache health error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { error } = await getAdmin();
+    if (error) {
+      return error;
+    }
+
+    const prefix = new URL(req.url).searchParams.get("prefix");
+    if (!prefix) {
+      return new Response("prefix is required", { status: 400 });
+    }
+    if (!PREFIX_PATTERN.test(prefix)) {
+      return new Response(
+        `Invalid prefix, expected one of: ${CACHE_PREFIXES.join(", ")}`,
+        { status: 400 },
+      );
+    }
+
+    const deleted = await purgeCache(prefix);
+    console.log(`🧹 Purged ${deleted} cache entries under ${prefix}`);
+
+    return Response.json({ prefix, deleted });
+  } catch (error) {
+    if (error instanceof RedisUnavailableError) {
+      return new Response(error.message, { status: 503 });
+    }
+    console.error("Purge cache error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
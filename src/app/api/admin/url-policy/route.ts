@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { getAdmin } from "~/server/auth/admin";
+import {
+  deleteUrlPolicyRule,
+  getUrlPolicyRules,
+  upsertUrlPolicyRule,
+} from "~/server/db/queries";
+import { clearUrlPolicyCache } from "~/server/tools/url-policy";
+
+const ruleSchema = z.object({
+  // A bare hostname; the rule covers its subdomains too
+  domain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)*$/, "Expected a domain like example.com"),
+  action: z.enum(["allow", "block"]),
+});
+
+export async function GET() {
+  try {
+    const { error } = await getAdmin();
+    if (error) {
+      return error;
+    }
+
+    return Response.json(await getUrlPolicyRules());
+  } catch (error) {
+    console.error("Get URL policy rules error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { user, error } = await getAdmin();
+    if (error) {
+      return error;
+    }
+
+    const parsed = ruleSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json(
+        { error: z.prettifyError(parsed.error) },
+        { status: 400 },
+      );
+    }
+
+    const rule = await upsertUrlPolicyRule({
+      ...parsed.data,
+      createdById: user.id,
+    });
+    clearUrlPolicyCache();
+
+    return Response.json(rule);
+  } catch (error) {
+    console.error("Save URL policy rule error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { error } = await getAdmin();
+    if (error) {
+      return error;
+    }
+
+    const domain = new URL(req.url).searchParams.get("domain")?.toLowerCase();
+    if (!domain) {
+      return new Response("domain is required", { status: 400 });
+    }
+
+    if (!(await deleteUrlPolicyRule(domain))) {
+      return new Response("Rule not found", { status: 404 });
+    }
+    clearUrlPolicyCache();
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Delete URL policy rule error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,223 @@
+import type { UIMessageStreamWriter } from "ai";
+import { createUIMessageStream, createUIMessageStreamResponse } from "ai";
+import { Langfuse } from "langfuse";
+import { z } from "zod";
+import { streamFromDeepSearch } from "~/deep-search";
+import { env } from "~/env";
+import { auth } from "~/server/auth";
+import { enforceChatRateLimits } from "~/server/chat-rate-limit";
+import { recordRunUsage, transformDatabaseMessageToAISDK, writeAnswer } from "~/server/chat-stream";
+import {
+  getChat,
+  getSourcePolicies,
+  getTokenBudget,
+  savePausedResearch,
+  takePausedResearch,
+  upsertChat,
+} from "~/server/db/queries";
+import { mergeSourcePolicies } from "~/source-policy";
+import type { DatabaseMessage, OurMessage } from "~/types";
+import { MAX_PLAN_ITEMS, mergeMessages } from "~/utils";
+
+const langfuse = new Langfuse({
+  environment: env.NODE_ENV,
+});
+
+// The plan as the user left it: items can be edited, removed or added
+const continueSchema = z.object({
+  chatId: z.string(),
+  plan: z.object({
+    items: z
+      .array(
+        z.object({
+          question: z.string().trim().min(1),
+          query: z.string().trim().min(1).optional(),
+        }),
+      )
+      .min(1, "The plan needs at least one sub-question")
+      .max(MAX_PLAN_ITEMS),
+  }),
+});
+
+// Resumes research that paused after planning, with the plan the user approved
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const parsed = continueSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json(
+        { error: z.prettifyError(parsed.error) },
+        { status: 400 },
+      );
+    }
+
+    const { chatId, plan } = parsed.data;
+
+    // Resuming runs the research, so it counts against the same limits
+    const rateLimited = await enforceChatRateLimits(session.user);
+
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const tokenBudget = await getTokenBudget(session.user.id);
+
+    if (tokenBudget.remaining <= 0) {
+      console.log("❌ Monthly token budget exhausted:", tokenBudget);
+      return new Response("Monthly token budget exceeded", { status: 429 });
+    }
+
+    const existingChat = await getChat({ chatId, userId: session.user.id });
+
+    if (!existingChat) {
+      return new Response("Chat not found", { status: 404 });
+    }
+
+    const sourcePolicies = await getSourcePolicies({
+      userId: session.user.id,
+      chatId,
+    });
+    const sourcePolicy = mergeSourcePolicies(sourcePolicies.user, sourcePolicies.chat);
+
+    // Taking it means a second click on "Start research" can't run it twice.
+    // Nothing that can fail runs between here and the research itself, which
+    // puts it back if it fails
+    const paused = await takePausedResearch({
+      chatId,
+      userId: session.user.id,
+    });
+
+    if (!paused) {
+      return new Response("No research is waiting for approval in this chat", { status: 409 });
+    }
+
+    // So the user can try again rather than having to ask from scratch
+    let failed = false;
+    const restorePausedResearch = async () => {
+      failed = true;
+      try {
+        await savePausedResearch({
+          chatId,
+          userId: session.user.id,
+          plan: paused.plan,
+          researchMode: paused.researchMode,
+          userLocation: paused.userLocation ?? undefined,
+        });
+      } catch (error) {
+        console.error("❌ Error restoring paused research:", error);
+      }
+    };
+
+    const existingMessages = existingChat.messages.map((msg, index) =>
+      transformDatabaseMessageToAISDK(msg as DatabaseMessage, index)
+    );
+
+    // The paused message only holds the proposed plan; the resumed
+    // research replaces it
+    const conversationMessages: OurMessage[] =
+      existingMessages.at(-1)?.role === "assistant"
+        ? existingMessages.slice(0, -1)
+        : existingMessages;
+
+    console.log("▶️ Resuming research with the approved plan:", {
+      chatId,
+      items: plan.items.length,
+      researchMode: paused.researchMode,
+    });
+
+    const trace = langfuse.trace({
+      name: "chat-continue",
+      userId: session.user.id,
+      sessionId: chatId,
+    });
+
+    const assistantMessageId = crypto.randomUUID();
+
+    const stream = createUIMessageStream<OurMessage>({
+      async execute({ writer }: { writer: UIMessageStreamWriter<OurMessage> }) {
+        writer.write({
+          type: "start",
+          messageId: assistantMessageId,
+        });
+
+        // Shared ID so the updated budget replaces the initial part
+        const tokenBudgetPartId = crypto.randomUUID();
+
+        writer.write({
+          type: "data-tokenBudget",
+          data: tokenBudget,
+          id: tokenBudgetPartId,
+        });
+
+        let getContext: Awaited<ReturnType<typeof streamFromDeepSearch>>["getContext"];
+        try {
+          const deepSearch = await streamFromDeepSearch({
+            messages: conversationMessages,
+            telemetry: {
+              isEnabled: true,
+              functionId: "agent",
+              metadata: {
+                langfuseTraceId: trace.id,
+              },
+            },
+            writeMessagePart: writer.write,
+            userLocation: paused.userLocation ?? undefined,
+            sourcePolicy,
+            researchMode: paused.researchMode,
+            approvedPlan: {
+              items: plan.items.map((item) => ({ ...item, resolved: false })),
+            },
+          });
+          getContext = deepSearch.getContext;
+
+          if (deepSearch.result) {
+            await writeAnswer(writer, deepSearch.result);
+          }
+        } catch (error) {
+          await restorePausedResearch();
+          throw error;
+        }
+
+        await recordRunUsage({
+          writer,
+          context: getContext(),
+          userId: session.user.id,
+          chatId,
+          messageId: assistantMessageId,
+          tokenBudgetPartId,
+        });
+      },
+      onFinish: async ({ messages }: { messages: OurMessage[] }) => {
+        // Keep the saved chat as it was, with the plan still awaiting approval
+        if (failed) {
+          console.log("❌ Resumed research failed, plan restored for another try");
+          return;
+        }
+
+        console.log("🏁 Resumed research finished, saving chat");
+
+        try {
+          await upsertChat({
+            userId: session.user.id,
+            chatId,
+            messages: mergeMessages(conversationMessages, messages),
+          });
+
+          await langfuse.flushAsync();
+        } catch (error) {
+          console.error("❌ Error saving chat:", error);
+        }
+      },
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  } catch (error) {
+    console.error("Continue research error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
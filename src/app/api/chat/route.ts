@@ -4,56 +4,24 @@ import { createUIMessageStream, createUIMessageStreamResponse } from "ai";
 import { Langfuse } from "langfuse";
 import { streamFromDeepSearch } from "~/deep-search";
 import { env } from "~/env";
+import { isResearchMode } from "~/research-depth";
 import { auth } from "~/server/auth";
-import { generateChatTitle, getChat, upsertChat } from "~/server/db/queries";
-import { checkRateLimit, recordRateLimit, type RateLimitConfig } from "~/server/rate-limit";
+import { enforceChatRateLimits } from "~/server/chat-rate-limit";
+import { recordRunUsage, transformDatabaseMessageToAISDK, writeAnswer } from "~/server/chat-stream";
+import { discardPausedResearch, generateChatTitle, getChat, getSourcePolicies, getTokenBudget, savePausedResearch, upsertChat } from "~/server/db/queries";
 import type { DatabaseMessage, OurMessage, UserLocation } from "~/types";
-import { messageToString } from "~/utils";
+import { mergeSourcePolicies } from "~/source-policy";
+import { mergeMessages, messageToString } from "~/utils";
 
 const langfuse = new Langfuse({
   environment: env.NODE_ENV,
 });
 
-
-// Rate limiting configuration
-const rateLimitConfig: RateLimitConfig = {
-  maxRequests: 20, // 20 requests per minute
-  maxRetries: 3,
-  windowMs: 60_000, // 1 minute window
-  keyPrefix: "chat_api",
-};
-
-// Helper function to transform database message format to AI SDK format
-function transformDatabaseMessageToAISDK(msg: DatabaseMessage, index: number): OurMessage {
-  console.log(`🔍 Message ${index}:`, {
-    id: msg.id,
-    role: msg.role,
-    contentType: typeof msg.content,
-    content: msg.content,
-    parts: msg.parts,
-    createdAt: msg.createdAt,
-  });
-
-  // In AI SDK v5, messages use parts instead of content
-  // If we have stored parts, use them; otherwise convert content to text part
-  let parts: Array<{ type: string; text?: string; [key: string]: unknown }> = [];
-  
-  if (msg.parts && Array.isArray(msg.parts)) {
-    parts = msg.parts;
-  } else if (msg.content) {
-    // Convert legacy content to text part
-    const contentText = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
-    parts = [{ type: 'text', text: contentText }];
-  }
-
-  const transformedMessage: OurMessage = {
-    id: msg.id,
-    role: msg.role as "user" | "assistant" | "system",
-    parts: parts as OurMessage['parts'],
-  };
-
-  console.log(`🔍 Transformed message ${index}:`, transformedMessage);
-  return transformedMessage;
+// The primary language subtag of the first Accept-Language entry, e.g. "en" from "en-GB,en;q=0.9"
+function getPreferredLanguage(request: Request): string | undefined {
+  const [language] = request.headers.get("accept-language")?.split(/[,;-]/) ?? [];
+  const trimmed = language?.trim().toLowerCase();
+  return trimmed && trimmed !== "*" ? trimmed : undefined;
 }
 
 function getUserLocation(request: Request): UserLocation {
@@ -67,12 +35,12 @@ function getUserLocation(request: Request): UserLocation {
     request.headers.set("x-vercel-ip-longitude", "-122.4194");
     
     const { longitude, latitude, city, country } = geolocation(request);
-    return { longitude, latitude, city, country };
+    return { longitude, latitude, city, country, language: getPreferredLanguage(request) };
   }
 
   // Use actual geolocation in production
   const { longitude, latitude, city, country } = geolocation(request);
-  return { longitude, latitude, city, country };
+  return { longitude, latitude, city, country, language: getPreferredLanguage(request) };
 }
 
 export async function GET(req: Request) {
@@ -125,34 +93,38 @@ export async function POST(req: Request) {
     const userLocation = getUserLocation(req);
     console.log("📍 User location:", userLocation);
 
-    // Check rate limit for authenticated users
+    // Check rate limits for authenticated users, keyed on their user id
     console.log("🚦 Checking rate limit...");
-    const rateLimitCheck = await checkRateLimit(rateLimitConfig);
-    
-    if (!rateLimitCheck.allowed) {
-      console.log("🛑 Rate limit exceeded, waiting for reset...");
-      const isAllowed = await rateLimitCheck.retry();
-      
-      if (!isAllowed) {
-        console.log("❌ Rate limit exceeded after retries");
-        return new Response("Rate limit exceeded", {
-          status: 429,
-          headers: {
-            "X-RateLimit-Limit": rateLimitConfig.maxRequests.toString(),
-            "X-RateLimit-Remaining": rateLimitCheck.remaining.toString(),
-            "X-RateLimit-Reset": rateLimitCheck.resetTime.toString(),
-          },
-        });
-      }
+    const rateLimited = await enforceChatRateLimits(session.user);
+
+    if (rateLimited) {
+      return rateLimited;
     }
-    
-    // Record the request
-    await recordRateLimit(rateLimitConfig);
+
     console.log("✅ Rate limit check passed, proceeding with request");
 
+    // Check the user's monthly token budget before starting any research
+    const tokenBudget = await getTokenBudget(session.user.id);
+
+    if (tokenBudget.remaining <= 0) {
+      console.log("❌ Monthly token budget exhausted:", tokenBudget);
+      return new Response("Monthly token budget exceeded", { status: 429 });
+    }
+
     const requestBody = await req.json();
     console.log("📦 Full request body:", JSON.stringify(requestBody, null, 2));
-    const { messages }: { messages: OurMessage[] } = requestBody;
+    // `refresh` is set by the "Refresh" button on a cached answer
+    const { messages, refresh = false, researchMode = "standard", reviewPlan = false }: {
+      messages: OurMessage[];
+      refresh?: boolean;
+      researchMode?: unknown;
+      // Pause after planning so the user can edit or approve the plan
+      reviewPlan?: boolean;
+    } = requestBody;
+
+    if (!isResearchMode(researchMode)) {
+      return new Response("researchMode must be quick, standard or deep", { status: 400 });
+    }
     
     // Extract chatId from the URL or useChat id
     const url = new URL(req.url);
@@ -258,14 +230,17 @@ export async function POST(req: Request) {
         transformDatabaseMessageToAISDK(msg as DatabaseMessage, index)
       ) ?? [];
       
-      // The frontend sends only new messages, so append them to existing ones
-      conversationMessages = [...existingMessages, ...messages];
+      // The frontend may resend messages that are already saved
+      conversationMessages = mergeMessages(existingMessages, messages);
       console.log("📝 Existing messages:", existingMessages.length);
       console.log("📝 New messages:", messages.length);
       console.log("📝 Total conversation messages:", conversationMessages.length);
       
       // No title generation needed for existing chats
       titlePromise = Promise.resolve("");
+
+      // A new message moves on from any plan left waiting for review
+      await discardPausedResearch(chatId);
     }
     
     // Update trace with sessionId after chat is created/loaded
@@ -273,12 +248,27 @@ export async function POST(req: Request) {
       sessionId: chatId,
     });
 
+    // The user's default source policy, narrowed by this chat's own
+    const sourcePolicies = await getSourcePolicies({
+      userId: session.user.id,
+      chatId,
+    });
+    const sourcePolicy = mergeSourcePolicies(sourcePolicies.user, sourcePolicies.chat);
+
     console.log("🔧 Starting deep search stream");
     console.log("🚀 CHAT API CALLED - Starting new stream");
     
+    const assistantMessageId = crypto.randomUUID();
+
     // Create the UI message stream with type-safe data parts
     const stream = createUIMessageStream<OurMessage>({
       async execute({ writer }: { writer: UIMessageStreamWriter<OurMessage> }) {
+        // Give the assistant message an id up front so usage can be linked to it
+        writer.write({
+          type: "start",
+          messageId: assistantMessageId,
+        });
+
         // Send new chat created event if this is a new chat (transient data part)
         if (isNewChat) {
           await writer.write({
@@ -287,7 +277,16 @@ export async function POST(req: Request) {
           });
         }
 
-        const { result } = await streamFromDeepSearch({
+        // Shared ID so the updated budget replaces the initial part
+        const tokenBudgetPartId = crypto.randomUUID();
+
+        writer.write({
+          type: "data-tokenBudget",
+          data: tokenBudget,
+          id: tokenBudgetPartId,
+        });
+
+        const { result, getContext } = await streamFromDeepSearch({
           messages: conversationMessages,
           telemetry: {
             isEnabled: true,
@@ -298,59 +297,42 @@ export async function POST(req: Request) {
           },
           writeMessagePart: writer.write,
           userLocation,
+          sourcePolicy,
+          userId: session.user.id,
+          refresh,
+          researchMode,
+          reviewPlan,
         });
 
         // If we got a final answer result, we need to stream its content
         if (result) {
-          console.log("🎯 Final answer result received, streaming text content");
-          
-          // Stream the text content from the result using the proper delta format
-          try {
-            const messageId = crypto.randomUUID();
-            
-            // Send text-start event
-            await writer.write({
-              type: "text-start",
-              id: messageId,
-            });
-            
-            // Stream text deltas from the result
-            const textStream = result.textStream;
-            for await (const textChunk of textStream) {
-              await writer.write({
-                type: "text-delta",
-                id: messageId,
-                delta: textChunk,
-              });
-            }
-            
-            // Send text-end event
-            await writer.write({
-              type: "text-end",
-              id: messageId,
-            });
-          } catch (error) {
-            console.error("❌ Error streaming final answer:", error);
-            // Fallback to getting complete text as a single delta
-            const finalText = await result.text;
-            if (finalText) {
-              const messageId = crypto.randomUUID();
-              await writer.write({
-                type: "text-start",
-                id: messageId,
-              });
-              await writer.write({
-                type: "text-delta", 
-                id: messageId,
-                delta: finalText,
-              });
-              await writer.write({
-                type: "text-end",
-                id: messageId,
-              });
-            }
-          }
+          await writeAnswer(writer, result);
         }
+
+        const context = getContext();
+
+        // Research paused for the user to review the plan. Keep it so
+        // /api/chat/continue can pick up from there
+        const plan = context.getPlan();
+        if (!result && plan?.awaitingApproval) {
+          await savePausedResearch({
+            chatId,
+            userId: session.user.id,
+            plan,
+            researchMode,
+            userLocation,
+          });
+        }
+
+        // Persist per-call usage and charge this run against the monthly budget
+        await recordRunUsage({
+          writer,
+          context,
+          userId: session.user.id,
+          chatId,
+          messageId: assistantMessageId,
+          tokenBudgetPartId,
+        });
       },
       onFinish: async ({ messages }: { messages: OurMessage[] }) => {
         console.log("🏁 Stream finished, saving chat");
@@ -358,7 +340,7 @@ export async function POST(req: Request) {
         
         try {
           // Get the complete updated conversation
-          const updatedMessages = [...conversationMessages, ...messages];
+          const updatedMessages = mergeMessages(conversationMessages, messages);
 
           // Await the title generation if it was started
           const generatedTitle = titlePromise ? await titlePromise : "";
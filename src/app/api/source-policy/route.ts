@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { auth } from "~/server/auth";
+import {
+  getSourcePolicies,
+  setChatSourcePolicy,
+  setUserSourcePolicy,
+} from "~/server/db/queries";
+import { mergeSourcePolicies } from "~/source-policy";
+
+const domainListSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)*$/, "Expected a domain like example.com"),
+  )
+  .default([]);
+
+// null clears the policy
+const sourcePolicySchema = z
+  .object({
+    includeDomains: domainListSchema,
+    excludeDomains: domainListSchema,
+    preferredDomains: domainListSchema,
+  })
+  .nullable();
+
+// Pass ?chatId= to work with a chat's policy instead of the user's default
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const chatId = new URL(req.url).searchParams.get("chatId") ?? undefined;
+    const policies = await getSourcePolicies({
+      userId: session.user.id,
+      chatId,
+    });
+
+    return Response.json({
+      ...policies,
+      // What research in this chat will actually use
+      effective: mergeSourcePolicies(policies.user, policies.chat),
+    });
+  } catch (error) {
+    console.error("Get source policy error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const parsed = sourcePolicySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return Response.json(
+        { error: z.prettifyError(parsed.error) },
+        { status: 400 },
+      );
+    }
+
+    const chatId = new URL(req.url).searchParams.get("chatId");
+
+    if (chatId) {
+      const updated = await setChatSourcePolicy({
+        userId: session.user.id,
+        chatId,
+        sourcePolicy: parsed.data,
+      });
+      if (!updated) {
+        return new Response("Chat not found", { status: 404 });
+      }
+    } else {
+      await setUserSourcePolicy({
+        userId: session.user.id,
+        sourcePolicy: parsed.data,
+      });
+    }
+
+    return Response.json(parsed.data);
+  } catch (error) {
+    console.error("Save source policy error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
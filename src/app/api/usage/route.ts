@@ -0,0 +1,37 @@
+import { auth } from "~/server/auth";
+import { getUsageReport } from "~/server/db/queries";
+
+const DEFAULT_REPORT_DAYS = 30;
+
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const chatId = url.searchParams.get("chatId") ?? undefined;
+    const days = Number(url.searchParams.get("days") ?? DEFAULT_REPORT_DAYS);
+
+    if (!Number.isFinite(days) || days <= 0) {
+      return new Response("days must be a positive number", { status: 400 });
+    }
+
+    // Admins see spend across every user unless they ask for one;
+    // everyone else only ever sees their own
+    const userId = session.user.isAdmin
+      ? (url.searchParams.get("userId") ?? undefined)
+      : session.user.id;
+
+    const since = new Date(Date.now() - days * 86_400_000);
+
+    const report = await getUsageReport({ userId, chatId, since });
+
+    return Response.json(report);
+  } catch (error) {
+    console.error("Get usage error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
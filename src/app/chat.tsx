@@ -7,7 +7,14 @@ import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { ChatMessage } from "~/components/chat-message";
 import { SignInModal } from "~/components/sign-in-modal";
-import type { OurMessage } from "~/types";
+import type { OurMessage, ResearchMode, ResearchPlan } from "~/types";
+import { messageToString } from "~/utils";
+
+const researchModes: { value: ResearchMode; label: string; description: string }[] = [
+  { value: "quick", label: "Quick", description: "A couple of searches, for simple facts" },
+  { value: "standard", label: "Standard", description: "Balanced research for most questions" },
+  { value: "deep", label: "Deep", description: "Many searches and pages, for thorough reports" },
+];
 
 interface ChatProps {
   userName: string;
@@ -24,11 +31,17 @@ export const ChatPage = ({
 }: ChatProps) => {
   const [showSignInModal, setShowSignInModal] = useState(false);
   const router = useRouter();
-  const { messages, status, sendMessage } = useChat<OurMessage>({
+  const { messages, status, sendMessage, regenerate } = useChat<OurMessage>({
     transport: new DefaultChatTransport({
       body: {
         chatId,
       },
+      // Approving a plan regenerates the paused message, resuming the
+      // research server-side rather than starting it over
+      prepareSendMessagesRequest: ({ id, messages, body, trigger, messageId }) =>
+        trigger === "regenerate-message"
+          ? { api: "/api/chat/continue", body: body ?? {} }
+          : { body: { ...body, id, messages, trigger, messageId } },
     }),
     messages: initialMessages,
     onData: (dataPart) => {
@@ -40,6 +53,8 @@ export const ChatPage = ({
   });
 
   const [input, setInput] = useState("");
+  const [researchMode, setResearchMode] = useState<ResearchMode>("standard");
+  const [reviewPlan, setReviewPlan] = useState(false);
 
   const isLoading = status === "streaming";
 
@@ -52,9 +67,12 @@ export const ChatPage = ({
     }
 
     try {
-      sendMessage({
-        text: input,
-      });
+      void sendMessage(
+        {
+          text: input,
+        },
+        { body: { researchMode, reviewPlan } },
+      );
       setInput("");
     } catch (error) {
       console.error("Failed to send message:", error);
@@ -71,12 +89,32 @@ export const ChatPage = ({
           aria-label="Chat messages"
         >
           {messages.map((message, index) => {
+            // A cached answer can be refreshed by asking its question again
+            const question = messages[index - 1];
+            const onRefresh =
+              question?.role === "user" && !isLoading
+                ? () =>
+                    void sendMessage(
+                      { text: messageToString(question) },
+                      { body: { refresh: true, researchMode } },
+                    )
+                : undefined;
+
+            // Only the latest message can still be waiting on its plan
+            const onApprovePlan =
+              index === messages.length - 1 && !isLoading
+                ? (plan: ResearchPlan) =>
+                    void regenerate({ body: { chatId, plan } })
+                : undefined;
+
             return (
               <ChatMessage
                 key={message.id || `message-${index}`}
                 parts={message.parts ?? []}
                 role={message.role}
                 userName={userName}
+                onRefresh={onRefresh}
+                onApprovePlan={onApprovePlan}
               />
             );
           })}
@@ -85,6 +123,31 @@ export const ChatPage = ({
         <div className="border-t border-white/10 bg-black/20 backdrop-blur-sm">
           <form onSubmit={handleSubmit} className="mx-auto max-w-4xl p-6">
             <div className="flex gap-3">
+              <select
+                value={researchMode}
+                onChange={(e) => setResearchMode(e.target.value as ResearchMode)}
+                aria-label="Research depth"
+                title={researchModes.find((mode) => mode.value === researchMode)?.description}
+                className="rounded-xl border border-white/10 bg-white/5 px-3 py-3 text-sm text-white backdrop-blur-sm transition-all focus:border-accent/50 focus:outline-none focus:ring-2 focus:ring-accent/30"
+              >
+                {researchModes.map((mode) => (
+                  <option key={mode.value} value={mode.value} className="bg-gray-900">
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+              <label
+                title="Review and edit the research plan before any searching starts"
+                className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 text-sm text-gray-300 backdrop-blur-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={reviewPlan}
+                  onChange={(e) => setReviewPlan(e.target.checked)}
+                  className="accent-accent"
+                />
+                Review plan
+              </label>
               <input
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
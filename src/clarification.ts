@@ -48,7 +48,7 @@ Respond with JSON: { "needsClarification": boolean, "reason": "string if true" }
     promptTokens: result.usage.inputTokens ?? 0,
     completionTokens: result.usage.outputTokens ?? 0,
     totalTokens: result.usage.totalTokens ?? 0,
-  });
+  }, guardrailModel.modelId);
 
   return result.object;
 };
@@ -1,11 +1,15 @@
 import ReactMarkdown, { type Components } from "react-markdown";
-import type { OurMessage } from "~/types";
+import type { OurMessage, ResearchPlan } from "~/types";
 import { ReasoningSteps } from "./reasoning-steps";
 
 interface ChatMessageProps {
   parts: OurMessage['parts'];
   role: string;
   userName: string;
+  // Research the question again instead of using a cached answer
+  onRefresh?: () => void;
+  // Start research paused for review, with the plan as the user left it
+  onApprovePlan?: (plan: ResearchPlan) => void;
 }
 
 const components: Components = {
@@ -40,10 +44,27 @@ const Markdown = ({ children }: { children: string }) => {
   return <ReactMarkdown components={components}>{children}</ReactMarkdown>;
 };
 
+const relativeTime = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+
+// "3 hours ago", "yesterday"
+const formatAge = (isoDate: string) => {
+  const minutes = Math.round((new Date(isoDate).getTime() - Date.now()) / 60_000);
+  if (Math.abs(minutes) < 60) {
+    return relativeTime.format(minutes, "minute");
+  }
+  const hours = Math.round(minutes / 60);
+  if (Math.abs(hours) < 24) {
+    return relativeTime.format(hours, "hour");
+  }
+  return relativeTime.format(Math.round(hours / 24), "day");
+};
+
 export const ChatMessage = ({
   parts,
   role,
   userName,
+  onRefresh,
+  onApprovePlan,
 }: ChatMessageProps) => {
   const isAI = role === "assistant";
 
@@ -64,11 +85,25 @@ export const ChatMessage = ({
     part.type === 'data-text'
   );
 
+  // The plan is resent whenever an item is ticked off, so the last one is current
+  const planPart = isAI ? parts.findLast((part): part is Extract<typeof part, { type: 'data-plan' }> => 
+    part.type === 'data-plan'
+  ) : undefined;
+
   // Find the latest usage data part (if any)
   const usagePart = isAI ? parts.findLast((part): part is Extract<typeof part, { type: 'data-usage' }> => 
     part.type === 'data-usage'
   ) : undefined;
 
+  const cachedAnswerPart = isAI ? parts.find((part): part is Extract<typeof part, { type: 'data-cachedAnswer' }> => 
+    part.type === 'data-cachedAnswer'
+  ) : undefined;
+
+  // Find the latest token budget data part (if any)
+  const tokenBudgetPart = isAI ? parts.findLast((part): part is Extract<typeof part, { type: 'data-tokenBudget' }> => 
+    part.type === 'data-tokenBudget'
+  ) : undefined;
+
   return (
     <div className="mb-6 message-appear">
       <div
@@ -82,8 +117,30 @@ export const ChatMessage = ({
         </p>
 
         {/* Show reasoning steps for AI messages with data parts */}
-        {isAI && (actionParts.length > 0 || sourcesParts.length > 0 || clarificationParts.length > 0) && (
-          <ReasoningSteps parts={[...actionParts, ...sourcesParts, ...clarificationParts]} />
+        {isAI && (planPart !== undefined || actionParts.length > 0 || sourcesParts.length > 0 || clarificationParts.length > 0) && (
+          <ReasoningSteps
+            parts={[...actionParts, ...sourcesParts, ...clarificationParts]}
+            plan={planPart?.data}
+            onApprovePlan={onApprovePlan}
+          />
+        )}
+
+        {/* Flag answers reused from an earlier, similar question */}
+        {cachedAnswerPart && (
+          <div className="mb-4 flex items-center justify-between gap-3 rounded-lg border border-primary-700/30 bg-primary-900/20 px-3 py-2 text-xs text-primary-300">
+            <span title={`Originally asked: "${cachedAnswerPart.data.question}"`}>
+              ♻️ Answer from a similar question researched {formatAge(cachedAnswerPart.data.cachedAt)}
+            </span>
+            {onRefresh && (
+              <button
+                type="button"
+                onClick={onRefresh}
+                className="rounded px-2 py-1 font-medium text-accent-light transition-colors hover:bg-white/10"
+              >
+                Refresh
+              </button>
+            )}
+          </div>
         )}
 
         {/* Show text content from data-text parts */}
@@ -106,7 +163,10 @@ export const ChatMessage = ({
                     part.type === "data-sources" || 
                     part.type === "data-clarification" ||
                     part.type === "data-usage" ||
+                    part.type === "data-tokenBudget" ||
                     part.type === "data-newChatCreated" ||
+                    part.type === "data-cachedAnswer" ||
+                    part.type === "data-plan" ||
                     part.type === "data-text") {
                   return null;
                 }
@@ -137,10 +197,17 @@ export const ChatMessage = ({
           </div>
         )}
 
-        {/* Show token usage for AI messages */}
-        {isAI && usagePart && (
-          <div className="mt-3 pt-3 border-t border-white/5 text-xs text-gray-500">
-            <span className="opacity-60">Tokens: {usagePart.data.totalTokens.toLocaleString()}</span>
+        {/* Show token usage and remaining monthly budget for AI messages */}
+        {isAI && (usagePart ?? tokenBudgetPart) && (
+          <div className="mt-3 pt-3 border-t border-white/5 flex justify-between text-xs text-gray-500">
+            {usagePart && (
+              <span className="opacity-60">Tokens: {usagePart.data.totalTokens.toLocaleString()}</span>
+            )}
+            {tokenBudgetPart && (
+              <span className="opacity-60">
+                Budget left this month: {tokenBudgetPart.data.remaining.toLocaleString()} / {tokenBudgetPart.data.limit.toLocaleString()}
+              </span>
+            )}
           </div>
         )}
       </div>
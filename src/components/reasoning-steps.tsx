@@ -1,9 +1,10 @@
 "use client";
 
-import { SearchIcon } from "lucide-react";
+import { CheckCircle2, Circle, Plus, SearchIcon, X } from "lucide-react";
 import { useState } from "react";
 import ReactMarkdown, { type Components } from "react-markdown";
-import type { OurMessage, SearchSource } from "~/types";
+import type { OurMessage, ResearchPlan, SearchSource } from "~/types";
+import { MAX_PLAN_ITEMS } from "~/utils";
 
 const components: Components = {
   p: ({ children }) => <p className="mb-2 first:mt-0 last:mb-0">{children}</p>,
@@ -36,6 +37,12 @@ const Markdown = ({ children }: { children: string }) => {
   return <ReactMarkdown components={components}>{children}</ReactMarkdown>;
 };
 
+const getCredibilityClassName = (score: number) => {
+  if (score >= 70) return "bg-green-500/15 text-green-400";
+  if (score >= 45) return "bg-yellow-500/15 text-yellow-400";
+  return "bg-red-500/15 text-red-400";
+};
+
 const Sources = ({ sources }: { sources: SearchSource[] }) => {
   return (
     <div className="mt-3">
@@ -68,7 +75,51 @@ const Sources = ({ sources }: { sources: SearchSource[] }) => {
               <div className="mt-1 text-xs text-gray-400 line-clamp-2">
                 {source.snippet}
               </div>
+              {source.citation && (
+                <div className="mt-1 text-xs text-primary-300 line-clamp-1">
+                  {[
+                    source.citation.publication,
+                    source.citation.citedBy !== undefined ? `Cited by ${source.citation.citedBy}` : undefined,
+                  ]
+                    .filter(Boolean)
+                    .join(" • ")}
+                </div>
+              )}
+              {source.date && !source.citation && (
+                <div className="mt-1 text-xs text-gray-500">{source.date}</div>
+              )}
+              {(source.credibility !== undefined ||
+                (source.providers?.length ?? 0) > 0) && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {source.credibility !== undefined && (
+                    <span
+                      title="Rough credibility score from the source's domain and citations"
+                      className={`rounded px-1.5 py-0.5 text-[10px] uppercase tracking-wide ${getCredibilityClassName(source.credibility)}`}
+                    >
+                      Credibility {source.credibility}
+                    </span>
+                  )}
+                  {source.providers?.map((provider) => (
+                    <span
+                      key={provider}
+                      className="rounded bg-white/10 px-1.5 py-0.5 text-[10px] uppercase tracking-wide text-gray-400"
+                    >
+                      {provider}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
+            {source.imageUrl && (
+              <img
+                src={source.imageUrl}
+                alt=""
+                className="size-12 flex-shrink-0 rounded object-cover"
+                onError={(e) => {
+                  e.currentTarget.style.display = 'none';
+                }}
+              />
+            )}
           </a>
         ))}
       </div>
@@ -76,17 +127,132 @@ const Sources = ({ sources }: { sources: SearchSource[] }) => {
   );
 };
 
+const PlanChecklist = ({ plan }: { plan: ResearchPlan }) => {
+  const resolvedCount = plan.items.filter((item) => item.resolved).length;
+
+  return (
+    <div className="mb-3 rounded-lg glass-card p-3">
+      <div className="mb-2 flex items-center justify-between text-xs font-medium text-gray-400">
+        <span>📋 Research plan</span>
+        <span className="opacity-75">
+          {resolvedCount}/{plan.items.length} answered
+        </span>
+      </div>
+      <ul className="space-y-1.5 text-sm">
+        {plan.items.map((item, index) => (
+          <li key={index} className="flex items-start gap-2">
+            {item.resolved ? (
+              <CheckCircle2 className="mt-0.5 size-4 flex-shrink-0 text-green-400" />
+            ) : (
+              <Circle className="mt-0.5 size-4 flex-shrink-0 text-gray-500" />
+            )}
+            <span className={item.resolved ? "text-gray-400 line-through" : "text-gray-200"}>
+              {item.question}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Lets the user reword, remove or add sub-questions before research starts
+const PlanEditor = ({
+  plan,
+  onApprove,
+}: {
+  plan: ResearchPlan;
+  onApprove: (plan: ResearchPlan) => void;
+}) => {
+  const [items, setItems] = useState(plan.items);
+  // Empty sub-questions are left out when the research starts
+  const filledItems = items
+    .filter((item) => item.question.trim())
+    .map((item) => ({ ...item, question: item.question.trim() }));
+  const hasEmptyItems = filledItems.length < items.length;
+  const isFull = items.length >= MAX_PLAN_ITEMS;
+
+  const updateQuestion = (index: number, question: string) => {
+    // A reworded question may no longer suit the suggested search
+    setItems(items.map((item, i) => (i === index ? { question, resolved: false } : item)));
+  };
+
+  return (
+    <div className="mb-3 rounded-lg glass-card border-accent/30 p-3">
+      <div className="mb-2 text-xs font-medium text-gray-400">
+        📋 Research plan • Edit it, then start the research
+      </div>
+      <ul className="space-y-1.5 text-sm">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <Circle className="size-4 flex-shrink-0 text-gray-500" />
+            <input
+              value={item.question}
+              onChange={(e) => updateQuestion(index, e.target.value)}
+              aria-label={`Sub-question ${index + 1}`}
+              aria-invalid={!item.question.trim()}
+              className="flex-1 rounded border border-white/10 bg-white/5 px-2 py-1 text-gray-200 focus:border-accent/50 focus:outline-none aria-[invalid=true]:border-amber-500/50"
+            />
+            <button
+              type="button"
+              onClick={() => setItems(items.filter((_, i) => i !== index))}
+              aria-label={`Remove sub-question ${index + 1}`}
+              className="rounded p-1 text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              <X className="size-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex items-center justify-between">
+        <button
+          type="button"
+          disabled={isFull}
+          onClick={() => setItems([...items, { question: "", resolved: false }])}
+          title={isFull ? `A plan can have at most ${MAX_PLAN_ITEMS} sub-questions` : undefined}
+          className="flex items-center gap-1 rounded px-2 py-1 text-xs text-gray-300 transition-colors hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-transparent"
+        >
+          <Plus className="size-3" /> Add sub-question
+        </button>
+        {hasEmptyItems && (
+          <span className="text-xs text-amber-400/80">
+            Empty sub-questions will be skipped
+          </span>
+        )}
+        <button
+          type="button"
+          disabled={filledItems.length === 0}
+          onClick={() => onApprove({ items: filledItems })}
+          className="button-gradient rounded-lg px-3 py-1.5 text-xs font-medium text-white disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Start research
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const ReasoningSteps = ({
   parts,
+  plan,
+  onApprovePlan,
 }: {
   parts: Array<Extract<OurMessage['parts'][number], { type: 'data-newAction' | 'data-sources' | 'data-clarification' }>>;
+  plan?: ResearchPlan;
+  // Set while the plan is waiting for the user's approval
+  onApprovePlan?: (plan: ResearchPlan) => void;
 }) => {
   const [openStep, setOpenStep] = useState<number | null>(null);
 
-  if (parts.length === 0) return null;
+  if (parts.length === 0 && !plan) return null;
 
   return (
     <div className="mb-4 w-full">
+      {plan?.awaitingApproval && onApprovePlan ? (
+        <PlanEditor plan={plan} onApprove={onApprovePlan} />
+      ) : (
+        plan && plan.items.length > 0 && <PlanChecklist plan={plan} />
+      )}
       <ul className="space-y-2">
         {parts.map((part, index) => {
           const isOpen = openStep === index;
@@ -140,6 +306,15 @@ export const ReasoningSteps = ({
                               <SearchIcon className="size-4 animate-pulse" />
                               <span>Expanding search...</span>
                             </div>
+                            {part.data.queries?.length > 0 && (
+                              <ul className="flex flex-col gap-1 pl-6 text-gray-300">
+                                {part.data.queries.map((query) => (
+                                  <li key={query} className="truncate">
+                                    “{query}”
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
                             {part.data.feedback && (
                               <div className="mt-2 border-l-2 border-accent/30 pl-4">
                                 <div className="font-medium text-accent-light mb-1">Insight:</div>
@@ -8,12 +8,15 @@ import {
 import { z } from "zod";
 import { env } from "~/env";
 import { defaultModel } from "~/models";
+import { getResearchDepth } from "~/research-depth";
 import { runAgentLoop } from "~/run-agent-loop";
-import { searchSerper } from "~/serper";
-import { cacheWithRedis } from "~/server/redis/redis";
+import { searchWeb } from "~/search-providers";
 import { bulkCrawlWebsites } from "~/server/tools/crawler";
 import { SystemContext } from "~/system-context";
-import type { Action, OurMessage, UserLocation } from "~/types";
+import type { Action, OurMessage, ResearchMode, ResearchPlan, SourcePolicy, UserLocation } from "~/types";
+
+// How many searches a single continue action may run in parallel
+export const MAX_QUERIES_PER_STEP = 3;
 
 // Action schema for structured outputs - avoiding z.union for better LLM compatibility
 export const actionSchema = z.object({
@@ -32,10 +35,42 @@ export const actionSchema = z.object({
       - 'continue': Continue searching for more information as the current data is insufficient.
       - 'answer': Answer the user's question and complete the loop.`,
     ),
-  query: z
-    .string()
+  queries: z
+    .array(z.string())
+    .describe(
+      `The queries to search for. Required if type is 'continue'. Usually one, but up to ${MAX_QUERIES_PER_STEP} when the question compares several things ("X vs Y vs Z"), one query per thing; they run in parallel. Each may be one of the related searches suggested by the search engine, copied verbatim.`,
+    )
+    .optional(),
+  vertical: z
+    .enum(["web", "news", "scholar", "images", "places"])
+    .describe(
+      `Only used when type is 'continue'. Which kind of search to run (default: 'web').
+      - 'web': General web search.
+      - 'news': Latest news and current events. Pair with dateRange for "latest", "this week" or "recent" questions.
+      - 'scholar': Academic papers and research, with citation counts.
+      - 'images': Pictures of things, people or places.
+      - 'places': Local businesses, venues and addresses.`,
+    )
+    .optional(),
+  dateRange: z
+    .enum(["day", "week", "month", "year"])
+    .describe(
+      "Only used when type is 'continue'. Restrict results to the past day, week, month or year. Use for time-sensitive questions, especially with the 'news' vertical.",
+    )
+    .optional(),
+  region: z
+    .enum(["global", "country", "local"])
     .describe(
-      "The query to search for. Required if type is 'continue'.",
+      `Only used when type is 'continue'. How much to localize results to where the user is (default: 'country').
+      - 'global': No location bias. Use when the question is about another country or is location-independent (science, history, software).
+      - 'country': Results from the user's country. Use for laws, regulations, prices, shops, services and anything else that differs between countries.
+      - 'local': Results near the user's city. Use for "near me" questions, local events and the 'places' vertical.`,
+    )
+    .optional(),
+  scrape: z
+    .boolean()
+    .describe(
+      "Only used when type is 'continue'. Set to false for simple factual lookups (dates, heights, populations, definitions) where the knowledge graph and 'people also ask' answers are likely enough, so pages are not scraped. Defaults to true.",
     )
     .optional(),
   feedback: z
@@ -44,6 +79,12 @@ export const actionSchema = z.object({
       "Required only when type is 'continue'. Detailed feedback about what information is missing or what needs to be improved in the search. This will be used to guide the next search iteration.",
     )
     .optional(),
+  resolvedPlanItems: z
+    .array(z.number())
+    .describe(
+      "The numbers of research plan sub-questions that the search history now answers, including ones already ticked off.",
+    )
+    .optional(),
 });
 
 export const getNextAction = async (
@@ -59,6 +100,7 @@ export const getNextAction = async (
   });
 
   const searchHistory = context.getSearchHistory();
+  const relatedSearches = context.getRelatedSearches();
   console.log("🔍 getNextAction - Search History:", {
     length: searchHistory.length,
     content: searchHistory.substring(0, 500) + (searchHistory.length > 500 ? "..." : "")
@@ -78,7 +120,7 @@ export const getNextAction = async (
     },
     prompt: `Current date: ${currentDate}
 
-${context.getUserLocationContext()}You're basically the research coordinator for someone who needs the FULL story. Your job is to look at what we've found so far and decide: "Do we have enough tea to give them the complete scoop, or do we need to dig deeper?"
+${context.getUserLocationContext()}${context.getSourcePolicyContext()}You're basically the research coordinator for someone who needs the FULL story. Your job is to look at what we've found so far and decide: "Do we have enough tea to give them the complete scoop, or do we need to dig deeper?"
 
 YOUR INVESTIGATIVE PROCESS:
 1. Figure out exactly what intel they're asking for in their original question
@@ -89,7 +131,7 @@ YOUR INVESTIGATIVE PROCESS:
 
 STAYING CURRENT:
 - Today's date is ${currentDate}
-- When they want "recent", "latest", "current", or "up to date" info, prioritize searches with date-specific terms
+- When they want "recent", "latest", "current", or "up to date" info, prioritize searches with date-specific terms and set a dateRange (e.g. 'week' for "this week")
 - Check publication dates to make sure we're not giving them old news
 
 YOUR OPTIONS:
@@ -97,7 +139,13 @@ YOUR OPTIONS:
    - Use this when we need more details from actual web pages
    - The system will search AND scrape content automatically
    - Be specific about what search terms will find the best stuff
-   - We'll grab up to ${env.MAX_PAGES_TO_SCRAPE} most relevant pages and extract everything
+   - Target the research plan's open sub-questions, most important first
+   - We'll grab up to ${context.getResearchDepth().pagesToScrape} most relevant pages and extract everything
+   - Pick the right search vertical: 'news' with a dateRange for anything "latest" or "recent", 'scholar' for academic or scientific questions, 'places' for local businesses, 'images' when they want to see something
+   - Set the region: 'country' when the answer depends on where they live (regulations, prices, availability), 'local' for things near them, 'global' when they ask about somewhere else or it doesn't matter
+   - For quick facts, set scrape to false - the knowledge graph and "people also ask" answers are often enough without reading whole pages
+   - If one of the related searches below targets exactly what's missing, use it as the query word for word
+   - Comparing several things? Give one query per thing (up to ${MAX_QUERIES_PER_STEP}) in the same step instead of spending a step on each - they all share the vertical, dateRange, region and scrape settings
    - IMPORTANT: When choosing continue, explain exactly what's missing and how to find it
 
 2. answer - Time to spill the tea and wrap this up
@@ -111,10 +159,13 @@ WHAT MAKES A GOOD ANSWER:
 - Well-rounded: Have we covered different angles of their question?
 
 DECISION-MAKING RULES:
+- If the knowledge graph or "people also ask" answers already settle a simple factual question, choose "answer" - no need to scrape
 - If we found relevant info that answers their question (even if not perfect), choose "answer"
 - If recent searches are turning up nothing, maybe what we have is good enough
 - Don't keep searching for super specific details if we have the general answer
 - If we've tried multiple search approaches and still coming up empty, better to answer with what we've got
+- Once every sub-question in the research plan is answered, choose "answer"
+- This is step ${context.getCurrentStep() + 1} of ${context.getResearchDepth().maxSteps} in ${context.getResearchDepth().mode} mode - in quick mode answer as soon as the core question is covered, in deep mode keep digging into every angle
 
 PREVIOUS FEEDBACK:
 ${context.getLastFeedback() ?? "No previous feedback available."}
@@ -126,10 +177,16 @@ MOST RECENT USER MESSAGE: "${context.getLatestUserMessage()}"
 
 FIRST USER QUESTION: "${context.getInitialQuestion()}"
 
+RESEARCH PLAN ([x] = already answered):
+${context.getPlanContext()}
+
 SEARCH HISTORY AND SUMMARIES:
 ${searchHistory}
 
-Based on what we've gathered, decide what to do next. If you choose 'continue', give me the feedback breakdown:
+RELATED SEARCHES SUGGESTED BY THE SEARCH ENGINE:
+${relatedSearches.length > 0 ? relatedSearches.map((query) => `- ${query}`).join("\n") : "None yet."}
+
+Based on what we've gathered, decide what to do next, and list which research plan sub-questions the search history now answers. If you choose 'continue', give me the feedback breakdown:
 - What specific intel is still missing from the story
 - Why what we have so far isn't quite enough yet
 - Exact search strategies or keywords that might find the missing pieces
@@ -149,21 +206,15 @@ This feedback helps the search system get smarter about finding what we need.`,
     promptTokens: result.usage.inputTokens ?? 0,
     completionTokens: result.usage.outputTokens ?? 0,
     totalTokens: result.usage.totalTokens ?? 0,
-  });
+  }, defaultModel.modelId);
 
   return result.object as Action;
 };
 
-// Create cached version of bulkCrawlWebsites
-const cachedBulkCrawlWebsites = cacheWithRedis(
-  "bulkCrawlWebsites",
-  bulkCrawlWebsites
-);
-
 // Define tools object
 const tools = {
   searchWeb: {
-    description: "Search the web for current information using Google search",
+    description: "Search the web for current information",
     parameters: z.object({
       query: z.string().describe("The search query to look up"),
       num: z.number().default(env.SEARCH_RESULTS_COUNT).describe(`Number of search results to return (default: ${env.SEARCH_RESULTS_COUNT})`),
@@ -171,22 +222,26 @@ const tools = {
     execute: async (args: { query: string; num: number }, options: { abortSignal?: AbortSignal }) => {
       console.log("🔍 Search tool called with query:", args.query);
       try {
-        const results = await searchSerper({ q: args.query, num: args.num }, options.abortSignal);
-        console.log("✅ Search successful, found", results.organic.length, "results");
+        const results = await searchWeb(
+          { query: args.query, num: args.num },
+          options.abortSignal,
+        );
+        console.log("✅ Search successful, found", results.results.length, "results");
 
         // Return formatted results for the AI to use
         return {
           query: args.query,
-          results: results.organic.map(result => ({
+          results: results.results.map(result => ({
             title: result.title,
-            url: result.link,
+            url: result.url,
             snippet: result.snippet,
             date: result.date,
+            providers: result.providers,
           })),
           knowledgeGraph: results.knowledgeGraph,
           peopleAlsoAsk: results.peopleAlsoAsk,
           relatedSearches: results.relatedSearches,
-          totalResults: results.organic.length,
+          totalResults: results.totalResults,
         };
       } catch (error) {
         console.error("❌ Search error:", error);
@@ -205,7 +260,7 @@ const tools = {
     execute: async (args: { urls: string[] }, options: { abortSignal?: AbortSignal }) => {
       console.log("🌐 Scrape pages tool called with URLs:", args.urls);
       try {
-        const results = await cachedBulkCrawlWebsites({ urls: args.urls });
+        const results = await bulkCrawlWebsites({ urls: args.urls });
         console.log("✅ Scraping completed, success:", results.success);
 
         if (results.success) {
@@ -247,6 +302,17 @@ export async function streamFromDeepSearch(opts: {
   telemetry: TelemetrySettings;
   writeMessagePart?: UIMessageStreamWriter<OurMessage>['write'];
   userLocation?: UserLocation;
+  sourcePolicy?: SourcePolicy;
+  // Who's asking, so cached answers are only shared with the same user
+  userId?: string;
+  // Skip the answer cache and research the question again
+  refresh?: boolean;
+  // Defaults to "standard"
+  researchMode?: ResearchMode;
+  // Pause after planning so the user can review the plan
+  reviewPlan?: boolean;
+  // Resume paused research with the plan the user approved
+  approvedPlan?: ResearchPlan;
 }): Promise<{
   result: StreamTextResult<{}, string> | null;
   getContext: () => SystemContext;
@@ -255,7 +321,12 @@ export async function streamFromDeepSearch(opts: {
   const langfuseTraceId = opts.telemetry.isEnabled ? opts.telemetry.metadata?.langfuseTraceId as string | undefined : undefined;
   
   // Create context here so we can return it
-  const ctx = new SystemContext(opts.messages, opts.userLocation);
+  const ctx = new SystemContext(
+    opts.messages,
+    opts.userLocation,
+    opts.sourcePolicy,
+    getResearchDepth(opts.researchMode),
+  );
   
   // Run the agent loop with the full conversation history
   console.log("🔄 streamFromDeepSearch calling runAgentLoop");
@@ -264,6 +335,10 @@ export async function streamFromDeepSearch(opts: {
     writeMessagePart: opts.writeMessagePart,
     userLocation: opts.userLocation,
     systemContext: ctx,
+    userId: opts.userId,
+    refresh: opts.refresh,
+    reviewPlan: opts.reviewPlan,
+    approvedPlan: opts.approvedPlan,
   });
   console.log("✅ streamFromDeepSearch received result from runAgentLoop");
   
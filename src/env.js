@@ -8,6 +8,10 @@ export const env = createEnv({
    */
   server: {
     REDIS_URL: z.string().url(),
+    // Commands that take longer count as Redis being down
+    REDIS_COMMAND_TIMEOUT_MS: z.coerce.number().default(1_000),
+    // Entries kept in memory per process while Redis is unavailable
+    REDIS_FALLBACK_CACHE_SIZE: z.coerce.number().int().min(1).default(1_000),
     AUTH_SECRET:
       process.env.NODE_ENV === "production"
         ? z.string()
@@ -19,13 +23,73 @@ export const env = createEnv({
       .enum(["development", "test", "production"])
       .default("development"),
     GOOGLE_GENERATIVE_AI_API_KEY: z.string(),
-    SERPER_API_KEY: z.string(),
+    // Comma-separated; with more than one, results are fused across providers
+    SEARCH_PROVIDER: z
+      .string()
+      .default("serper")
+      .transform((value) => value.split(",").map((name) => name.trim()))
+      .pipe(
+        z
+          .array(z.enum(["serper", "brave", "bing", "searxng", "fixture"]))
+          .min(1),
+      ),
+    SERPER_API_KEY: z.string().optional(),
+    BRAVE_SEARCH_API_KEY: z.string().optional(),
+    BING_SEARCH_API_KEY: z.string().optional(),
+    SEARXNG_URL: z.string().url().optional(),
+    SEARCH_FIXTURES_PATH: z.string().optional(),
     LANGFUSE_SECRET_KEY: z.string(),
     LANGFUSE_PUBLIC_KEY: z.string(),
     LANGFUSE_BASEURL: z.string().url(),
     EVAL_DATASET: z.enum(["dev", "ci", "regression"]).default("dev"),
     SEARCH_RESULTS_COUNT: z.coerce.number().default(3),
     MAX_PAGES_TO_SCRAPE: z.coerce.number().default(4),
+    MONTHLY_TOKEN_BUDGET: z.coerce.number().default(2_000_000),
+    // When to render pages in headless Chromium instead of plain fetch:
+    // 'auto' only when the fetched page looks empty or client-rendered
+    BROWSER_RENDERING: z.enum(["auto", "always", "never"]).default("auto"),
+    // Per-domain overrides, e.g. "twitter.com=always,example.com=never"
+    BROWSER_RENDERING_DOMAINS: z
+      .string()
+      .default("")
+      .transform((value) =>
+        value
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => entry.split("=").map((part) => part.trim())),
+      )
+      .pipe(
+        z
+          .array(
+            z.tuple([
+              z.string().min(1),
+              z.enum(["auto", "always", "never"]),
+            ]),
+          )
+          .transform((entries) => Object.fromEntries(entries)),
+      ),
+    // Falls back to the Chromium installed by `playwright install chromium`
+    CHROMIUM_EXECUTABLE_PATH: z.string().optional(),
+    BROWSER_RENDER_MIN_TEXT_LENGTH: z.coerce.number().default(500),
+    BROWSER_RENDER_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+    BROWSER_RENDER_TIMEOUT_MS: z.coerce.number().default(15_000),
+    // Sent with every crawl request, and matched against robots.txt rules
+    CRAWLER_USER_AGENT: z.string().default("FourOneOneBot/0.1"),
+    CRAWLER_MAX_CONCURRENCY_PER_HOST: z.coerce.number().int().min(1).default(2),
+    CRAWLER_TIMEOUT_MS: z.coerce.number().default(10_000),
+    // Sites asking for a longer Crawl-delay than this are skipped
+    CRAWLER_MAX_CRAWL_DELAY_MS: z.coerce.number().default(10_000),
+    CRAWLER_MAX_RESPONSE_BYTES: z.coerce.number().default(10 * 1024 * 1024),
+    CRAWLER_MAX_REDIRECTS: z.coerce.number().int().min(0).default(5),
+    // Reuse the answer to an earlier question when a new one is this
+    // similar (cosine similarity of their embeddings). 'false' turns it off
+    SEMANTIC_CACHE: z.enum(["true", "false"]).default("true"),
+    SEMANTIC_CACHE_MIN_SIMILARITY: z.coerce.number().min(0).max(1).default(0.92),
+    SEMANTIC_CACHE_MAX_AGE_HOURS: z.coerce.number().default(24),
+    // Roughly how many tokens of search history go into each prompt
+    // before the oldest pages are compacted
+    SEARCH_HISTORY_TOKEN_BUDGET: z.coerce.number().int().min(1000).default(30_000),
   },
 
   /**
@@ -41,19 +105,44 @@ export const env = createEnv({
    */
   runtimeEnv: {
     REDIS_URL: process.env.REDIS_URL,
+    REDIS_COMMAND_TIMEOUT_MS: process.env.REDIS_COMMAND_TIMEOUT_MS,
+    REDIS_FALLBACK_CACHE_SIZE: process.env.REDIS_FALLBACK_CACHE_SIZE,
     AUTH_SECRET: process.env.AUTH_SECRET,
     AUTH_DISCORD_ID: process.env.AUTH_DISCORD_ID,
     AUTH_DISCORD_SECRET: process.env.AUTH_DISCORD_SECRET,
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
     GOOGLE_GENERATIVE_AI_API_KEY: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+    SEARCH_PROVIDER: process.env.SEARCH_PROVIDER,
     SERPER_API_KEY: process.env.SERPER_API_KEY,
+    BRAVE_SEARCH_API_KEY: process.env.BRAVE_SEARCH_API_KEY,
+    BING_SEARCH_API_KEY: process.env.BING_SEARCH_API_KEY,
+    SEARXNG_URL: process.env.SEARXNG_URL,
+    SEARCH_FIXTURES_PATH: process.env.SEARCH_FIXTURES_PATH,
     LANGFUSE_SECRET_KEY: process.env.LANGFUSE_SECRET_KEY,
     LANGFUSE_PUBLIC_KEY: process.env.LANGFUSE_PUBLIC_KEY,
     LANGFUSE_BASEURL: process.env.LANGFUSE_BASEURL,
     EVAL_DATASET: process.env.EVAL_DATASET,
     SEARCH_RESULTS_COUNT: process.env.SEARCH_RESULTS_COUNT,
     MAX_PAGES_TO_SCRAPE: process.env.MAX_PAGES_TO_SCRAPE,
+    MONTHLY_TOKEN_BUDGET: process.env.MONTHLY_TOKEN_BUDGET,
+    BROWSER_RENDERING: process.env.BROWSER_RENDERING,
+    BROWSER_RENDERING_DOMAINS: process.env.BROWSER_RENDERING_DOMAINS,
+    CHROMIUM_EXECUTABLE_PATH: process.env.CHROMIUM_EXECUTABLE_PATH,
+    BROWSER_RENDER_MIN_TEXT_LENGTH: process.env.BROWSER_RENDER_MIN_TEXT_LENGTH,
+    BROWSER_RENDER_CONCURRENCY: process.env.BROWSER_RENDER_CONCURRENCY,
+    BROWSER_RENDER_TIMEOUT_MS: process.env.BROWSER_RENDER_TIMEOUT_MS,
+    CRAWLER_USER_AGENT: process.env.CRAWLER_USER_AGENT,
+    CRAWLER_MAX_CONCURRENCY_PER_HOST:
+      process.env.CRAWLER_MAX_CONCURRENCY_PER_HOST,
+    CRAWLER_TIMEOUT_MS: process.env.CRAWLER_TIMEOUT_MS,
+    CRAWLER_MAX_CRAWL_DELAY_MS: process.env.CRAWLER_MAX_CRAWL_DELAY_MS,
+    CRAWLER_MAX_RESPONSE_BYTES: process.env.CRAWLER_MAX_RESPONSE_BYTES,
+    CRAWLER_MAX_REDIRECTS: process.env.CRAWLER_MAX_REDIRECTS,
+    SEMANTIC_CACHE: process.env.SEMANTIC_CACHE,
+    SEMANTIC_CACHE_MIN_SIMILARITY: process.env.SEMANTIC_CACHE_MIN_SIMILARITY,
+    SEMANTIC_CACHE_MAX_AGE_HOURS: process.env.SEMANTIC_CACHE_MAX_AGE_HOURS,
+    SEARCH_HISTORY_TOKEN_BUDGET: process.env.SEARCH_HISTORY_TOKEN_BUDGET,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -2,12 +2,22 @@ import { generateObject } from "ai";
 import { z } from "zod";
 import { guardrailModel } from "~/models";
 import type { SystemContext } from "~/system-context";
+import type { ResearchPlan } from "~/types";
 
 export const checkIsSafe = async (
   ctx: SystemContext,
   langfuseTraceId?: string,
+  // A plan the user approved, and may have edited, before research starts
+  plan?: ResearchPlan,
 ) => {
   const messageHistory = ctx.getConversationHistory();
+  const planText = plan
+    ? `\n\n<ResearchPlan>\n${plan.items
+        .map((item, index) =>
+          `${index + 1}. ${item.question}${item.query ? ` (search: ${item.query})` : ""}`,
+        )
+        .join("\n")}\n</ResearchPlan>`
+    : "";
 
   const result = await generateObject({
     model: guardrailModel,
@@ -37,6 +47,8 @@ You will receive the complete message history in XML format:
 
 Analyze the entire conversation context, including how the current query relates to previous messages, to determine if the latest user message should be processed.
 
+The history may be followed by a <ResearchPlan>: sub-questions and search queries the user reviewed, and may have rewritten, before research starts. Treat them as part of the latest user message, and \`refuse\` if any of them seeks something unsafe, even when the message itself is harmless.
+
 ## Your Task
 
 For each conversation history provided, analyze the latest user message in context and respond with exactly one of these classifications:
@@ -139,7 +151,7 @@ Respond with valid JSON in this exact format:
 }
 
 Remember: When in doubt, err on the side of caution. Your goal is protecting users while maintaining utility for legitimate research and information needs.`,
-    prompt: messageHistory,
+    prompt: `${messageHistory}${planText}`,
   });
 
   // Report usage to context
@@ -147,7 +159,7 @@ Remember: When in doubt, err on the side of caution. Your goal is protecting use
     promptTokens: result.usage.inputTokens || 0,
     completionTokens: result.usage.outputTokens || 0,
     totalTokens: result.usage.totalTokens || 0,
-  });
+  }, guardrailModel.modelId);
 
   return result.object;
 };
\ No newline at end of file
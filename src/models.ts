@@ -18,4 +18,31 @@ export const factualityModel = google("gemini-1.5-flash-latest");
 export const summarizerModel = google("gemini-1.5-flash-latest");
 
 // Model for content safety guardrails - fast and reliable
-export const guardrailModel = google("gemini-1.5-flash-latest"); 
\ No newline at end of file
+export const guardrailModel = google("gemini-1.5-flash-latest"); 
+
+// Model for embedding questions to find similar ones in the answer cache
+export const embeddingModel = google.textEmbeddingModel("text-embedding-004");
+
+// Price per million tokens in USD, keyed by model id
+export const modelPricing: Record<string, { input: number; output: number }> = {
+  "gemini-1.5-flash-latest": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro-latest": { input: 1.25, output: 5 },
+};
+
+// Cost of a single model call in USD. Unknown models are treated as free
+// so a missing price never blocks a request.
+export const calculateCost = (
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+): number => {
+  const pricing = modelPricing[model];
+  if (!pricing) {
+    return 0;
+  }
+
+  return (
+    (promptTokens * pricing.input + completionTokens * pricing.output) /
+    1_000_000
+  );
+};
@@ -69,7 +69,7 @@ Return ONLY the optimized search query, nothing else.`,
     promptTokens: result.usage.inputTokens ?? 0,
     completionTokens: result.usage.outputTokens ?? 0,
     totalTokens: result.usage.totalTokens ?? 0,
-  });
+  }, defaultModel.modelId);
 
   return result.text.trim();
 }
\ No newline at end of file
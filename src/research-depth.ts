@@ -0,0 +1,43 @@
+import { env } from "~/env";
+import type { ResearchDepth, ResearchMode } from "~/types";
+
+const RESEARCH_MODES: ResearchMode[] = ["quick", "standard", "deep"];
+
+export const isResearchMode = (value: unknown): value is ResearchMode =>
+  RESEARCH_MODES.includes(value as ResearchMode);
+
+/**
+ * The limits for a research mode. "standard" follows the
+ * SEARCH_RESULTS_COUNT and MAX_PAGES_TO_SCRAPE settings; the other modes
+ * scale down for a quick lookup or up for a thorough report.
+ */
+export const getResearchDepth = (
+  mode: ResearchMode = "standard",
+): ResearchDepth => {
+  switch (mode) {
+    case "quick":
+      return {
+        mode,
+        maxSteps: 2,
+        resultsPerQuery: 3,
+        pagesToScrape: 2,
+        maxTokens: 50_000,
+      };
+    case "standard":
+      return {
+        mode,
+        maxSteps: 5,
+        resultsPerQuery: env.SEARCH_RESULTS_COUNT,
+        pagesToScrape: env.MAX_PAGES_TO_SCRAPE,
+        maxTokens: 200_000,
+      };
+    case "deep":
+      return {
+        mode,
+        maxSteps: 10,
+        resultsPerQuery: 10,
+        pagesToScrape: 8,
+        maxTokens: 600_000,
+      };
+  }
+};
@@ -0,0 +1,65 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { defaultModel } from "~/models";
+import type { SystemContext } from "~/system-context";
+import type { ResearchPlan } from "~/types";
+
+/**
+ * Break the latest question down into the sub-questions a complete answer
+ * has to cover. Smaller research modes get fewer of them, since each one
+ * usually takes a step to research.
+ */
+export const createResearchPlan = async (
+  ctx: SystemContext,
+  langfuseTraceId?: string,
+): Promise<ResearchPlan> => {
+  const { maxSteps } = ctx.getResearchDepth();
+
+  const result = await generateObject({
+    model: defaultModel,
+    schema: z.object({
+      subQuestions: z
+        .array(
+          z.object({
+            question: z.string().describe("The sub-question, as a short question"),
+            query: z.string().describe("A web search query likely to answer it"),
+          }),
+        )
+        .describe(
+          `The sub-questions to research, most important first. At most ${maxSteps}.`,
+        ),
+    }),
+    experimental_telemetry: langfuseTraceId ? {
+      isEnabled: true,
+      functionId: "research-plan",
+      metadata: {
+        langfuseTraceId: langfuseTraceId,
+      },
+    } : {
+      isEnabled: false,
+    },
+    system: `You're planning the research before anyone hits search. Break the user's latest question down into the sub-questions a complete answer has to cover.
+
+- Each sub-question should be answerable on its own with a web search or two - suggest the first one
+- For comparisons, cover each thing being compared and the criteria that matter
+- A simple factual question only needs one sub-question - don't pad the plan
+- Use the conversation for context, but plan for the latest question
+- Write at most ${maxSteps} sub-questions, most important first`,
+    prompt: `${ctx.getUserLocationContext()}CONVERSATION HISTORY:
+${ctx.getConversationHistory()}
+
+LATEST QUESTION: "${ctx.getLatestUserMessage()}"`,
+  });
+
+  ctx.reportUsage("research-plan", {
+    promptTokens: result.usage.inputTokens ?? 0,
+    completionTokens: result.usage.outputTokens ?? 0,
+    totalTokens: result.usage.totalTokens ?? 0,
+  }, defaultModel.modelId);
+
+  return {
+    items: result.object.subQuestions
+      .slice(0, maxSteps)
+      .map(({ question, query }) => ({ question, query, resolved: false })),
+  };
+};
@@ -1,28 +1,26 @@
 import { streamText, type StreamTextResult, type UIMessage, type UIMessageStreamWriter } from "ai";
 import { randomUUID } from "crypto";
+import { isAnswerCacheable, lookupCachedAnswer, saveAnswerToCache, writeCachedAnswer, type AnswerCacheLookup } from "~/answer-cache";
 import { answerQuestion } from "~/answer-question";
 import { checkIfQuestionNeedsClarification } from "~/clarification";
-import { getNextAction } from "~/deep-search";
-import { env } from "~/env";
+import { getNextAction, MAX_QUERIES_PER_STEP } from "~/deep-search";
 import { addFaviconsToSources } from "~/favicon-utils";
 import { checkIsSafe } from "~/guardrails";
 import { defaultModel } from "~/models";
 import { rewriteQuery } from "~/query-rewriter";
-import { searchSerper } from "~/serper";
-import { cacheWithRedis } from "~/server/redis/redis";
+import { createResearchPlan } from "~/research-plan";
+import { searchWeb } from "~/search-providers";
 import { bulkCrawlWebsites } from "~/server/tools/crawler";
+import { applySourcePolicy, scoreSourceCredibility } from "~/source-policy";
 import { summarizeURLs } from "~/summarize-url";
-import { SystemContext } from "~/system-context";
-import type { Action, OurMessage, SearchSource, SummarizeURLInput, UserLocation } from "~/types";
+import { PAGE_ALREADY_READ, SystemContext } from "~/system-context";
+import type { Action, OurMessage, PageMetadata, ResearchPlan, SearchDateRange, SearchRegion, SearchSource, SearchVertical, SummarizeURLInput, UserLocation } from "~/types";
+import { normalizeUrl } from "~/utils";
 
 // Static ID for usage data part to prevent duplication
 const USAGE_DATA_PART_ID = randomUUID();
-
-// Create cached version of bulkCrawlWebsites
-const cachedBulkCrawlWebsites = cacheWithRedis(
-  "bulkCrawlWebsites",
-  bulkCrawlWebsites
-);
+// Likewise for the plan, which is resent as items get ticked off
+const PLAN_DATA_PART_ID = randomUUID();
 
 /**
  * Search the web, scrape URLs, and automatically summarize content
@@ -31,24 +29,57 @@ export async function searchAndScrape(
   context: SystemContext, 
   query: string,
   langfuseTraceId?: string,
-  writeMessagePart?: UIMessageStreamWriter<OurMessage>['write']
+  writeMessagePart?: UIMessageStreamWriter<OurMessage>['write'],
+  searchOptions: {
+    vertical?: SearchVertical;
+    dateRange?: SearchDateRange;
+    region?: SearchRegion;
+    scrape?: boolean;
+    // Normalized URLs already taken by other searches in the same parallel batch.
+    // Shared between them so an overlapping page is only scraped and
+    // summarized once; the URLs this search keeps are added to it.
+    claimedUrls?: Set<string>;
+  } = {},
 ): Promise<void> {
+  const { vertical = "web", dateRange, region, claimedUrls } = searchOptions;
+  const locale = context.getSearchLocale(region);
+  const { resultsPerQuery, pagesToScrape } = context.getResearchDepth();
+  // Image and place results point at pages that aren't worth scraping
+  const scrape = searchOptions.scrape ?? (vertical !== "images" && vertical !== "places");
   
   try {
     // First, search the web
-    const searchResults = await searchSerper(
-      { q: query, num: env.SEARCH_RESULTS_COUNT }, 
-      undefined
-    );
+    const searchResults = await searchWeb({
+      query,
+      num: resultsPerQuery,
+      vertical,
+      dateRange,
+      locale,
+    });
+
+    // Apply the user's source policy before we pick anything to scrape
+    const sourcePolicy = context.getSourcePolicy();
+    const allowedResults = applySourcePolicy(searchResults.results, sourcePolicy);
+    // Leave pages another search in this batch is already handling to it
+    const results = claimedUrls
+      ? allowedResults.filter(result => !claimedUrls.has(normalizeUrl(result.url)))
+      : allowedResults;
+    results.slice(0, pagesToScrape).forEach(result => claimedUrls?.add(normalizeUrl(result.url)));
     
     console.log("🔍 searchAndScrape - Search results:", {
       query,
-      resultsCount: searchResults.organic.length,
-      results: searchResults.organic.map(r => ({ title: r.title, url: r.link }))
+      vertical,
+      dateRange,
+      locale,
+      resultsCount: results.length,
+      filteredOut: searchResults.results.length - allowedResults.length,
+      duplicates: allowedResults.length - results.length,
+      failedProviders: searchResults.failedProviders,
+      results: results.map(r => ({ title: r.title, url: r.url, providers: r.providers }))
     });
     
     // If no search results, report empty results and return early
-    if (searchResults.organic.length === 0) {
+    if (results.length === 0) {
       console.log("⚠️ No search results found for query:", query);
       
       // Display empty sources to the user
@@ -59,62 +90,125 @@ export async function searchAndScrape(
         });
       }
       
-      // Report empty search results
+      // Report empty search results, keeping any quick answers we did get
       context.reportSearch({
         query,
         results: [],
+        knowledgeGraph: searchResults.knowledgeGraph,
+        peopleAlsoAsk: searchResults.peopleAlsoAsk,
+        relatedSearches: searchResults.relatedSearches,
       });
       
       return;
     }
+
+    // For quick factual lookups, the snippets and quick answers are the evidence
+    if (!scrape) {
+      const snippetResults = results.slice(0, pagesToScrape);
+
+      if (writeMessagePart) {
+        writeMessagePart({
+          type: "data-sources",
+          data: addFaviconsToSources(snippetResults.map(result => ({
+            title: result.title,
+            url: result.url,
+            snippet: result.snippet,
+            providers: result.providers,
+            date: result.date,
+            citation: result.citation,
+            imageUrl: result.imageUrl,
+            credibility: scoreSourceCredibility(result, sourcePolicy),
+          }))),
+        });
+      }
+
+      context.reportSearch({
+        query,
+        results: snippetResults.map(result => ({
+          title: result.title,
+          url: result.url,
+          snippet: result.snippet,
+          date: result.date ?? "",
+          citation: result.citation,
+          summary: "Not scraped - search snippet only.",
+        })),
+        knowledgeGraph: searchResults.knowledgeGraph,
+        peopleAlsoAsk: searchResults.peopleAlsoAsk,
+        relatedSearches: searchResults.relatedSearches,
+      });
+
+      return;
+    }
     
-    // Get the most relevant URLs to scrape (up to MAX_PAGES_TO_SCRAPE)
-    const urlsToScrape = searchResults.organic
-      .slice(0, env.MAX_PAGES_TO_SCRAPE)
-      .map(result => result.link);
+    // Get the most relevant URLs to scrape (up to the research depth's page limit).
+    // Pages an earlier search already summarized aren't read again
+    const alreadyRead = new Set(
+      results
+        .slice(0, pagesToScrape)
+        .filter(result => context.hasEvidence(result.url))
+        .map(result => result.url),
+    );
+    const urlsToScrape = results
+      .slice(0, pagesToScrape)
+      .map(result => result.url)
+      .filter(url => !alreadyRead.has(url));
     
     // Scrape the URLs
-    const scrapeResults = await cachedBulkCrawlWebsites({ urls: urlsToScrape });
+    const scrapeResults = await bulkCrawlWebsites({ urls: urlsToScrape });
     
     // Create a map of URL to scraped content
     const scrapeContentMap = new Map<string, string>();
+    // And of URL to what the page says about itself
+    const pageMetadataMap = new Map<string, PageMetadata>();
     
     if (scrapeResults.success) {
       scrapeResults.results.forEach(r => {
         scrapeContentMap.set(r.url, r.result.data);
+        if (r.result.metadata) pageMetadataMap.set(r.url, r.result.metadata);
       });
     } else {
       // Handle partial failures
       scrapeResults.results.forEach(r => {
         const content = r.result.success ? r.result.data : `Error: ${(r.result as { error: string }).error}`;
         scrapeContentMap.set(r.url, content);
+        if (r.result.success && r.result.metadata) pageMetadataMap.set(r.url, r.result.metadata);
       });
     }
     
     // Prepare inputs for summarization
     const conversationHistory = context.getFullConversationMessages();
-    const summarizationInputs: SummarizeURLInput[] = searchResults.organic
-      .slice(0, env.MAX_PAGES_TO_SCRAPE)
+    const summarizationInputs: SummarizeURLInput[] = results
+      .slice(0, pagesToScrape)
+      .filter(result => !alreadyRead.has(result.url))
       .map(result => ({
         conversationHistory,
-        scrapedContent: scrapeContentMap.get(result.link) ?? "Failed to scrape content",
+        scrapedContent: scrapeContentMap.get(result.url) ?? "Failed to scrape content",
         searchMetadata: {
           title: result.title,
-          url: result.link,
+          url: result.url,
           snippet: result.snippet,
-          date: result.date,
+          // The page's own publish date beats the search engine's guess
+          date: pageMetadataMap.get(result.url)?.publishedDate ?? result.date,
+          byline: pageMetadataMap.get(result.url)?.byline,
+          canonicalUrl: pageMetadataMap.get(result.url)?.canonicalUrl,
+          siteName: pageMetadataMap.get(result.url)?.siteName,
         },
         query,
       }));
     
     // Display sources to the user before starting summarization
     if (writeMessagePart) {
-      const sources: SearchSource[] = searchResults.organic
-        .slice(0, env.MAX_PAGES_TO_SCRAPE)
+      const sources: SearchSource[] = results
+        .slice(0, pagesToScrape)
         .map(result => ({
           title: result.title,
-          url: result.link,
+          url: result.url,
           snippet: result.snippet,
+          providers: result.providers,
+          date: result.date,
+          citation: result.citation,
+          imageUrl: result.imageUrl,
+          credibility: scoreSourceCredibility(result, sourcePolicy),
         }));
       
       const sourcesWithFavicons = addFaviconsToSources(sources);
@@ -129,7 +223,7 @@ export async function searchAndScrape(
     const summaryResults = await summarizeURLs(
       summarizationInputs, 
       langfuseTraceId, 
-      (description, usage) => context.reportUsage(description, usage)
+      (description, usage, model) => context.reportUsage(description, usage, model)
     );
     
     // Create a map of URL to summary
@@ -139,18 +233,22 @@ export async function searchAndScrape(
     });
     
     // Combine search results with summaries
-    const combinedResults = searchResults.organic.slice(0, env.MAX_PAGES_TO_SCRAPE).map(result => ({
+    const combinedResults = results.slice(0, pagesToScrape).map(result => ({
       title: result.title,
-      url: result.link,
+      url: result.url,
       snippet: result.snippet,
-      date: result.date ?? "",
-      summary: summaryMap.get(result.link) ?? "Failed to generate summary",
+      date: pageMetadataMap.get(result.url)?.publishedDate ?? result.date ?? "",
+      citation: result.citation,
+      summary: summaryMap.get(result.url) ?? (alreadyRead.has(result.url) ? PAGE_ALREADY_READ : "Failed to generate summary"),
     }));
     
     // Report the combined search with summarized content
     context.reportSearch({
       query,
       results: combinedResults,
+      knowledgeGraph: searchResults.knowledgeGraph,
+      peopleAlsoAsk: searchResults.peopleAlsoAsk,
+      relatedSearches: searchResults.relatedSearches,
     });
     
     console.log("📊 searchAndScrape completed:", {
@@ -170,6 +268,21 @@ export async function searchAndScrape(
   }
 }
 
+// Send the plan as it stands, replacing the last version sent
+const writePlan = (
+  ctx: SystemContext,
+  writeMessagePart?: UIMessageStreamWriter<OurMessage>['write'],
+) => {
+  const plan = ctx.getPlan();
+  if (writeMessagePart && plan) {
+    writeMessagePart({
+      type: "data-plan",
+      data: plan,
+      id: PLAN_DATA_PART_ID,
+    });
+  }
+};
+
 /**
  * Main agent loop implementation
  */
@@ -180,14 +293,23 @@ export async function runAgentLoop(
     writeMessagePart?: UIMessageStreamWriter<OurMessage>['write'];
     userLocation?: UserLocation;
     systemContext?: SystemContext;
+    // Who's asking. The answer cache is only used with one
+    userId?: string;
+    // Research the question even if a similar one has a cached answer
+    refresh?: boolean;
+    // Stop after planning so the user can review the plan
+    reviewPlan?: boolean;
+    // Resume research paused for review, with the plan the user approved
+    approvedPlan?: ResearchPlan;
   }
 ): Promise<StreamTextResult<{}, string> | null> {
-  const { langfuseTraceId, writeMessagePart, userLocation, systemContext } = opts;
+  const { langfuseTraceId, writeMessagePart, userLocation, systemContext, userId, refresh, reviewPlan, approvedPlan } = opts;
   // A persistent container for the state of our system
   const ctx = systemContext || new SystemContext(conversationMessages, userLocation);
   
-  // Guardrail check before entering the main loop
-  const guardrailResult = await checkIsSafe(ctx, langfuseTraceId);
+  // Guardrail check before entering the main loop. The user may have
+  // edited an approved plan's sub-questions, so they're checked too
+  const guardrailResult = await checkIsSafe(ctx, langfuseTraceId, approvedPlan);
   
   if (guardrailResult.classification === "refuse") {
     console.log("🚨 Query refused:", guardrailResult.reason);
@@ -209,12 +331,24 @@ export async function runAgentLoop(
     });
 
     // Report usage to context (usage is a promise for streaming calls)
-    refusalResult.usage.then((usage: any) => {
-      ctx.reportUsage("guardrail-refusal", usage);
+    void refusalResult.usage.then((usage) => {
+      ctx.reportUsage("guardrail-refusal", {
+        promptTokens: usage.inputTokens ?? 0,
+        completionTokens: usage.outputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? 0,
+      }, defaultModel.modelId);
     });
 
     return refusalResult;
   }
+
+  // The clarification and cache checks ran before the plan was proposed,
+  // so an approved plan goes straight to research
+  if (approvedPlan) {
+    ctx.setPlan({ items: approvedPlan.items });
+    writePlan(ctx, writeMessagePart);
+    return researchLoop(ctx, { langfuseTraceId, writeMessagePart });
+  }
   
   // Clarification check before entering the main loop
   const clarificationResult = await checkIfQuestionNeedsClarification(ctx, langfuseTraceId);
@@ -241,22 +375,88 @@ Give them a friendly clarification request that helps them understand what addit
     });
 
     // Report usage to context (usage is a promise for streaming calls)
-    clarificationResponse.usage.then((usage: any) => {
-      ctx.reportUsage("clarification-response", usage);
+    void clarificationResponse.usage.then((usage) => {
+      ctx.reportUsage("clarification-response", {
+        promptTokens: usage.inputTokens ?? 0,
+        completionTokens: usage.outputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? 0,
+      }, defaultModel.modelId);
     });
 
     return clarificationResponse;
   }
   
+  // Reuse the answer to a near-identical question if the user asked one
+  // recently. Cached answers are written straight into the message, so
+  // there's nothing to do without a writer (e.g. in evals)
+  let answerCache: AnswerCacheLookup | undefined;
+  if (writeMessagePart && userId && isAnswerCacheable(ctx, refresh)) {
+    try {
+      answerCache = await lookupCachedAnswer(ctx, { userId, refresh, langfuseTraceId });
+    } catch (error) {
+      console.error("❌ Answer cache lookup failed, researching instead:", error);
+    }
+
+    if (answerCache?.cached) {
+      console.log("♻️ Answering from cache:", {
+        question: answerCache.cached.question,
+        similarity: answerCache.cached.similarity,
+        cachedAt: answerCache.cached.createdAt,
+      });
+      writeCachedAnswer(answerCache.cached, writeMessagePart);
+      return null;
+    }
+  }
+  
+  // Break the question down into sub-questions before researching it.
+  // A context passed in may already have one
+  if (!ctx.getPlan()) {
+    try {
+      ctx.setPlan(await createResearchPlan(ctx, langfuseTraceId));
+    } catch (error) {
+      console.error("❌ Research planning failed, researching without a plan:", error);
+    }
+  }
+
+  // Pause with the proposed plan. The caller keeps it, and research picks
+  // up again from `approvedPlan` once the user has edited or approved it
+  const plan = ctx.getPlan();
+  if (reviewPlan && writeMessagePart && plan) {
+    console.log("⏸️ Pausing for plan review");
+    ctx.setPlan({ ...plan, awaitingApproval: true });
+    writePlan(ctx, writeMessagePart);
+    return null;
+  }
+
+  writePlan(ctx, writeMessagePart);
+  return researchLoop(ctx, { langfuseTraceId, writeMessagePart, answerCache });
+}
+
+/**
+ * Search and scrape until there's enough to answer, then stream the answer
+ */
+async function researchLoop(
+  ctx: SystemContext,
+  opts: {
+    langfuseTraceId?: string;
+    writeMessagePart?: UIMessageStreamWriter<OurMessage>['write'];
+    // Set when the answer should be saved to the answer cache
+    answerCache?: AnswerCacheLookup;
+  }
+): Promise<StreamTextResult<{}, string>> {
+  const { langfuseTraceId, writeMessagePart, answerCache } = opts;
+  
   // Get the latest user message for logging purposes
   const latestUserMessage = ctx.getLatestUserMessage();
   
-  // A loop that continues until we have an answer or we've taken 5 actions
+  const { maxSteps } = ctx.getResearchDepth();
+
+  // A loop that continues until we have an answer or we run out of steps or tokens
   while (!ctx.shouldStop()) {
     const currentStep = ctx.getCurrentStep() + 1; // 1-indexed for display
     
     // Safety check to prevent infinite loops
-    if (currentStep > 5) {
+    if (currentStep > maxSteps) {
       console.error("🚨 Safety break: step exceeded maximum, forcing exit");
       break;
     }
@@ -269,6 +469,11 @@ Give them a friendly clarification request that helps them understand what addit
       ctx.setLastFeedback(nextAction.feedback);
     }
     
+    // Tick off the sub-questions the evidence so far answers
+    if (ctx.resolvePlanItems(nextAction.resolvedPlanItems ?? [])) {
+      writePlan(ctx, writeMessagePart);
+    }
+    
     // Send progress annotation to the UI with step information
     if (writeMessagePart) {
       await writeMessagePart({
@@ -276,7 +481,7 @@ Give them a friendly clarification request that helps them understand what addit
         data: {
           ...nextAction,
           step: currentStep,
-          maxSteps: 5,
+          maxSteps,
         },
       });
     }
@@ -296,15 +501,38 @@ Give them a friendly clarification request that helps them understand what addit
     
     // We execute the action and update the state of our system
     if (nextAction.type === "continue") {
-      if (!nextAction.query) {
+      const queries = nextAction.queries?.slice(0, MAX_QUERIES_PER_STEP) ?? [];
+      if (queries.length === 0) {
         console.error("❌ Continue action missing query");
         break;
       }
       
-      // Use the query rewriter to optimize the search query based on feedback
-      const optimizedQuery = await rewriteQuery(nextAction.query, ctx, langfuseTraceId);
+      // Related searches come straight from the search engine, so use them as-is.
+      // Otherwise use the query rewriter to optimize each search query based on feedback
+      const relatedSearches = ctx.getRelatedSearches();
+      const optimizedQueries = await Promise.all(
+        queries.map(query =>
+          relatedSearches.includes(query)
+            ? query
+            : rewriteQuery(query, ctx, langfuseTraceId),
+        ),
+      );
       
-      await searchAndScrape(ctx, optimizedQuery, langfuseTraceId, writeMessagePart);
+      // Run the batch in parallel. Each search reports its own entry in the
+      // search history, and pages that turn up for several of them are
+      // only scraped once
+      const claimedUrls = new Set<string>();
+      await Promise.all(
+        [...new Set(optimizedQueries)].map(query =>
+          searchAndScrape(ctx, query, langfuseTraceId, writeMessagePart, {
+            vertical: nextAction.vertical,
+            dateRange: nextAction.dateRange,
+            region: nextAction.region,
+            scrape: nextAction.scrape,
+            claimedUrls,
+          }),
+        ),
+      );
       
       // Send updated token usage annotation after search and scrape
       if (writeMessagePart) {
@@ -322,17 +550,30 @@ Give them a friendly clarification request that helps them understand what addit
       console.log("🎯 Ready to answer the question");
       
       // Return the streaming answer directly instead of trying to consume and rewrite it
-      return answerQuestion(ctx, { 
+      const answer = answerQuestion(ctx, { 
         isFinal: false,
         langfuseTraceId,
       });
+
+      // Once it has streamed, keep it for the next person who asks.
+      // Best-effort answers after running out of steps aren't cached
+      if (answerCache) {
+        const lookup = answerCache;
+        answer.text
+          .then((text) => saveAnswerToCache(ctx, lookup, text))
+          .catch((error) => {
+            console.error("❌ Failed to cache answer:", error);
+          });
+      }
+
+      return answer;
     }
     
     // Increment step counter AFTER executing the action to ensure proper counting
     ctx.incrementStep();
   }
   
-  // If we've taken 5 actions and still don't have an answer,
+  // If we've run out of steps or tokens and still don't have an answer,
   // we ask the LLM to give its best attempt at an answer
   console.log("⏰ Reached maximum steps, providing final answer");
   
@@ -0,0 +1,86 @@
+import { env } from "~/env";
+import { cacheWithRedis } from "~/server/redis/redis";
+import type { SearchDateRange, SearchLocale } from "~/types";
+import type { SearchProvider } from "./types";
+
+// Bing has no "past year" freshness, so a year falls back to no restriction
+const BING_FRESHNESS: Record<SearchDateRange, string | undefined> = {
+  day: "Day",
+  week: "Week",
+  month: "Month",
+  year: undefined,
+};
+
+interface BingSearchResponse {
+  webPages?: {
+    totalEstimatedMatches: number;
+    value: {
+      name: string;
+      url: string;
+      snippet: string;
+      datePublished?: string;
+    }[];
+  };
+}
+
+const fetchFromBing = cacheWithRedis(
+  "bing",
+  async (
+    query: string,
+    count: number,
+    dateRange?: SearchDateRange,
+    locale?: SearchLocale,
+  ): Promise<BingSearchResponse> => {
+    if (!env.BING_SEARCH_API_KEY) {
+      throw new Error("BING_SEARCH_API_KEY is not set in .env");
+    }
+
+    const params = new URLSearchParams({ q: query, count: count.toString() });
+    const freshness = dateRange && BING_FRESHNESS[dateRange];
+    if (freshness) {
+      params.set("freshness", freshness);
+    }
+    if (locale?.country) {
+      params.set("cc", locale.country);
+    }
+    if (locale?.language) {
+      params.set("setLang", locale.language);
+    }
+    const response = await fetch(
+      `https://api.bing.microsoft.com/v7.0/search?${params.toString()}`,
+      {
+        headers: {
+          "Ocp-Apim-Subscription-Key": env.BING_SEARCH_API_KEY,
+        },
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+
+    return (await response.json()) as BingSearchResponse;
+  },
+  { ttlSeconds: 60 * 60, staleWhileRevalidateSeconds: 60 * 60 * 5 },
+);
+
+export const bingProvider: SearchProvider = {
+  name: "bing",
+  verticals: ["web"],
+  search: async ({ query, num, dateRange, locale }) => {
+    const json = await fetchFromBing(query, num, dateRange, locale);
+    const results = json.webPages?.value ?? [];
+
+    return {
+      query,
+      results: results.map((result, index) => ({
+        title: result.name,
+        url: result.url,
+        snippet: result.snippet,
+        position: index + 1,
+        date: result.datePublished,
+      })),
+      totalResults: results.length,
+    };
+  },
+};
@@ -0,0 +1,84 @@
+import { env } from "~/env";
+import { cacheWithRedis } from "~/server/redis/redis";
+import type { SearchDateRange, SearchLocale } from "~/types";
+import type { SearchProvider } from "./types";
+
+const BRAVE_FRESHNESS: Record<SearchDateRange, string> = {
+  day: "pd",
+  week: "pw",
+  month: "pm",
+  year: "py",
+};
+
+interface BraveSearchResponse {
+  web?: {
+    results: {
+      title: string;
+      url: string;
+      description: string;
+      age?: string;
+    }[];
+  };
+}
+
+const fetchFromBrave = cacheWithRedis(
+  "brave",
+  async (
+    query: string,
+    count: number,
+    dateRange?: SearchDateRange,
+    locale?: SearchLocale,
+  ): Promise<BraveSearchResponse> => {
+    if (!env.BRAVE_SEARCH_API_KEY) {
+      throw new Error("BRAVE_SEARCH_API_KEY is not set in .env");
+    }
+
+    const params = new URLSearchParams({ q: query, count: count.toString() });
+    if (dateRange) {
+      params.set("freshness", BRAVE_FRESHNESS[dateRange]);
+    }
+    if (locale?.country) {
+      params.set("country", locale.country);
+    }
+    if (locale?.language) {
+      params.set("search_lang", locale.language);
+    }
+    const response = await fetch(
+      `https://api.search.brave.com/res/v1/web/search?${params.toString()}`,
+      {
+        headers: {
+          Accept: "application/json",
+          "X-Subscription-Token": env.BRAVE_SEARCH_API_KEY,
+        },
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+
+    return (await response.json()) as BraveSearchResponse;
+  },
+  { ttlSeconds: 60 * 60, staleWhileRevalidateSeconds: 60 * 60 * 5 },
+);
+
+export const braveProvider: SearchProvider = {
+  name: "brave",
+  verticals: ["web"],
+  search: async ({ query, num, dateRange, locale }) => {
+    const json = await fetchFromBrave(query, num, dateRange, locale);
+    const results = json.web?.results ?? [];
+
+    return {
+      query,
+      results: results.map((result, index) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.description,
+        position: index + 1,
+        date: result.age,
+      })),
+      totalResults: results.length,
+    };
+  },
+};
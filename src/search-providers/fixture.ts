@@ -0,0 +1,93 @@
+import { readFileSync } from "node:fs";
+import { env } from "~/env";
+import type { SearchResult } from "~/types";
+import { normalizeUrl } from "~/utils";
+import type { SearchProvider } from "./types";
+
+// A result can carry the page's content, which the crawler serves instead
+// of fetching the URL
+type FixtureResult = Omit<SearchResult, "position"> & { content?: string };
+
+// Fixture files map a query to its results. The "*" entry, if present,
+// is used for any query that has no fixture of its own.
+type SearchFixtures = Record<string, FixtureResult[]>;
+
+let fixtures: SearchFixtures | undefined;
+
+const loadFixtures = (): SearchFixtures => {
+  if (!fixtures) {
+    fixtures = env.SEARCH_FIXTURES_PATH
+      ? (JSON.parse(
+          readFileSync(env.SEARCH_FIXTURES_PATH, "utf-8"),
+        ) as SearchFixtures)
+      : {};
+  }
+  return fixtures;
+};
+
+const PLACEHOLDER_URL = "https://example.com/search";
+
+// Deterministic stand-in results for queries without a fixture
+const placeholderResults = (query: string): FixtureResult[] => [
+  {
+    title: `Fixture result for "${query}"`,
+    url: `${PLACEHOLDER_URL}?q=${encodeURIComponent(query)}`,
+    snippet: `Offline fixture content for the query "${query}".`,
+  },
+];
+
+/**
+ * Whether every configured search provider is the fixture one, in which
+ * case nothing should go out to the network
+ */
+export const isFixtureMode = () =>
+  env.SEARCH_PROVIDER.every((name) => name === "fixture");
+
+const toPage = (result: FixtureResult) =>
+  result.content ?? `# ${result.title}\n\n${result.snippet}`;
+
+/**
+ * The content of a page the fixtures returned: the result's `content`,
+ * falling back to its title and snippet. Undefined for any other URL.
+ */
+export const getFixturePage = (url: string): string | undefined => {
+  const normalized = normalizeUrl(url);
+  const result = Object.values(loadFixtures())
+    .flat()
+    .find((result) => normalizeUrl(result.url) === normalized);
+
+  if (result) {
+    return toPage(result);
+  }
+
+  // Placeholder results link to a search for their query
+  const query = url.startsWith(`${PLACEHOLDER_URL}?`)
+    ? new URL(url).searchParams.get("q")
+    : null;
+
+  return query === null ? undefined : toPage(placeholderResults(query)[0]!);
+};
+
+/**
+ * Serves search results from a local JSON file so the agent can run
+ * offline, e.g. in evals or tests. Never makes a network request.
+ */
+export const fixtureProvider: SearchProvider = {
+  name: "fixture",
+  verticals: ["web"],
+  search: async ({ query, num }) => {
+    const loaded = loadFixtures();
+    const results = (
+      loaded[query] ?? loaded["*"] ?? placeholderResults(query)
+    ).slice(0, num);
+
+    return {
+      query,
+      results: results.map(({ content: _content, ...result }, index) => ({
+        ...result,
+        position: index + 1,
+      })),
+      totalResults: results.length,
+    };
+  },
+};
@@ -0,0 +1,89 @@
+import type { FusedSearchResponse, FusedSearchResult, KnowledgeGraph, PeopleAlsoAsk } from "~/types";
+import { normalizeUrl } from "~/utils";
+import type { SearchProvider, SearchProviderInput } from "./types";
+
+// Standard reciprocal rank fusion constant. Higher values flatten the
+// advantage of ranking first with any single provider.
+const RRF_K = 60;
+
+/**
+ * Query every provider in parallel and merge their rankings with
+ * reciprocal rank fusion. Results are de-duplicated by normalized URL,
+ * and each one records which providers found it.
+ *
+ * Only throws if every provider fails.
+ */
+export const searchWithFusion = async (
+  providers: SearchProvider[],
+  input: SearchProviderInput,
+  signal?: AbortSignal,
+): Promise<FusedSearchResponse> => {
+  const responses = await Promise.allSettled(
+    providers.map((provider) => provider.search(input, signal)),
+  );
+
+  const failedProviders: string[] = [];
+  const fused = new Map<string, { result: FusedSearchResult; score: number }>();
+  let knowledgeGraph: KnowledgeGraph | undefined;
+  const peopleAlsoAsk = new Map<string, PeopleAlsoAsk>();
+  const relatedSearches = new Map<string, string>();
+
+  responses.forEach((response, providerIndex) => {
+    const provider = providers[providerIndex]!;
+
+    if (response.status === "rejected") {
+      console.error(`❌ Search provider ${provider.name} failed:`, response.reason);
+      failedProviders.push(provider.name);
+      return;
+    }
+
+    // Keep the first knowledge graph, and every distinct question and related search
+    knowledgeGraph ??= response.value.knowledgeGraph;
+    response.value.peopleAlsoAsk?.forEach((item) => {
+      const key = item.question.toLowerCase();
+      if (!peopleAlsoAsk.has(key)) peopleAlsoAsk.set(key, item);
+    });
+    response.value.relatedSearches?.forEach((query) => {
+      const key = query.toLowerCase();
+      if (!relatedSearches.has(key)) relatedSearches.set(key, query);
+    });
+
+    response.value.results.forEach((result, rank) => {
+      const key = normalizeUrl(result.url);
+      const score = 1 / (RRF_K + rank + 1);
+      const existing = fused.get(key);
+
+      if (existing) {
+        existing.score += score;
+        existing.result.providers.push(provider.name);
+        existing.result.date ??= result.date;
+      } else {
+        fused.set(key, {
+          result: { ...result, providers: [provider.name] },
+          score,
+        });
+      }
+    });
+  });
+
+  if (failedProviders.length === providers.length) {
+    throw new Error(
+      `All search providers failed: ${failedProviders.join(", ")}`,
+    );
+  }
+
+  const results = [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, input.num)
+    .map(({ result }, index) => ({ ...result, position: index + 1 }));
+
+  return {
+    query: input.query,
+    results,
+    totalResults: results.length,
+    failedProviders,
+    knowledgeGraph,
+    peopleAlsoAsk: [...peopleAlsoAsk.values()],
+    relatedSearches: [...relatedSearches.values()],
+  };
+};
@@ -0,0 +1,50 @@
+import { env } from "~/env";
+import type { FusedSearchResponse } from "~/types";
+import { bingProvider } from "./bing";
+import { braveProvider } from "./brave";
+import { fixtureProvider } from "./fixture";
+import { searchWithFusion } from "./fusion";
+import { searxngProvider } from "./searxng";
+import { serperProvider } from "./serper";
+import type { SearchProvider, SearchProviderInput } from "./types";
+
+export type { SearchProvider, SearchProviderInput } from "./types";
+
+const searchProviders = {
+  serper: serperProvider,
+  brave: braveProvider,
+  bing: bingProvider,
+  searxng: searxngProvider,
+  fixture: fixtureProvider,
+} satisfies Record<(typeof env.SEARCH_PROVIDER)[number], SearchProvider>;
+
+/**
+ * The search providers selected by the SEARCH_PROVIDER env variable
+ */
+export const getSearchProviders = (): SearchProvider[] =>
+  env.SEARCH_PROVIDER.map((name) => searchProviders[name]);
+
+/**
+ * Search every configured provider that supports the requested vertical,
+ * fusing the results when there's more than one. If none of them support
+ * the vertical, fall back to a plain web search.
+ */
+export const searchWeb = (
+  input: SearchProviderInput,
+  signal?: AbortSignal,
+): Promise<FusedSearchResponse> => {
+  const { vertical = "web" } = input;
+  const providers = getSearchProviders();
+  const supporting = providers.filter((provider) =>
+    provider.verticals.includes(vertical),
+  );
+
+  if (supporting.length === 0) {
+    console.log(
+      `⚠️ No configured search provider supports ${vertical}, falling back to web search`,
+    );
+    return searchWithFusion(providers, { ...input, vertical: "web" }, signal);
+  }
+
+  return searchWithFusion(supporting, input, signal);
+};
@@ -0,0 +1,73 @@
+import { env } from "~/env";
+import { cacheWithRedis } from "~/server/redis/redis";
+import type { SearchDateRange, SearchLocale } from "~/types";
+import type { SearchProvider } from "./types";
+
+interface SearxngSearchResponse {
+  results: {
+    title: string;
+    url: string;
+    content?: string;
+    publishedDate?: string | null;
+  }[];
+}
+
+const fetchFromSearxng = cacheWithRedis(
+  "searxng",
+  async (
+    query: string,
+    dateRange?: SearchDateRange,
+    locale?: SearchLocale,
+  ): Promise<SearxngSearchResponse> => {
+    if (!env.SEARXNG_URL) {
+      throw new Error("SEARXNG_URL is not set in .env");
+    }
+
+    const params = new URLSearchParams({ q: query, format: "json" });
+    if (dateRange) {
+      // SearXNG uses the same names for its time ranges
+      params.set("time_range", dateRange);
+    }
+    if (locale?.language) {
+      // SearXNG localizes by language tag, optionally with a region, e.g. "en-GB"
+      params.set(
+        "language",
+        locale.country
+          ? `${locale.language}-${locale.country.toUpperCase()}`
+          : locale.language,
+      );
+    }
+    const response = await fetch(
+      `${env.SEARXNG_URL.replace(/\/$/, "")}/search?${params.toString()}`,
+    );
+
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+
+    return (await response.json()) as SearxngSearchResponse;
+  },
+  { ttlSeconds: 60 * 60, staleWhileRevalidateSeconds: 60 * 60 * 5 },
+);
+
+export const searxngProvider: SearchProvider = {
+  name: "searxng",
+  verticals: ["web"],
+  search: async ({ query, num, dateRange, locale }) => {
+    const json = await fetchFromSearxng(query, dateRange, locale);
+    // SearXNG has no result count parameter, so trim it ourselves
+    const results = json.results.slice(0, num);
+
+    return {
+      query,
+      results: results.map((result, index) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content ?? "",
+        position: index + 1,
+        date: result.publishedDate ?? undefined,
+      })),
+      totalResults: results.length,
+    };
+  },
+};
@@ -0,0 +1,182 @@
+import {
+  searchSerper,
+  searchSerperImages,
+  searchSerperNews,
+  searchSerperPlaces,
+  searchSerperScholar,
+  type SerperTool,
+} from "~/serper";
+import type { SearchDateRange, WebSearchResponse } from "~/types";
+import type { SearchProvider, SearchProviderInput } from "./types";
+
+const SERPER_TBS: Record<SearchDateRange, string> = {
+  day: "qdr:d",
+  week: "qdr:w",
+  month: "qdr:m",
+  year: "qdr:y",
+};
+
+const searchWebVertical = async (
+  query: string,
+  body: SerperTool.SearchInput,
+  signal?: AbortSignal,
+): Promise<WebSearchResponse> => {
+  const results = await searchSerper(body, signal);
+
+  return {
+    query,
+    results: results.organic.map((result) => ({
+      title: result.title,
+      url: result.link,
+      snippet: result.snippet,
+      position: result.position,
+      date: result.date,
+    })),
+    totalResults: results.organic.length,
+    knowledgeGraph: results.knowledgeGraph && {
+      title: results.knowledgeGraph.title,
+      type: results.knowledgeGraph.type,
+      description: results.knowledgeGraph.description,
+      url: results.knowledgeGraph.descriptionLink,
+      attributes: results.knowledgeGraph.attributes ?? {},
+    },
+    peopleAlsoAsk: results.peopleAlsoAsk?.map((item) => ({
+      question: item.question,
+      snippet: item.snippet,
+      title: item.title,
+      url: item.link,
+    })),
+    relatedSearches: results.relatedSearches?.map((item) => item.query),
+  };
+};
+
+const searchNewsVertical = async (
+  query: string,
+  body: SerperTool.SearchInput,
+  signal?: AbortSignal,
+): Promise<WebSearchResponse> => {
+  const results = await searchSerperNews(body, signal);
+
+  return {
+    query,
+    results: results.news.map((result) => ({
+      title: result.title,
+      url: result.link,
+      snippet: result.snippet,
+      position: result.position,
+      date: result.date,
+      source: result.source,
+      imageUrl: result.imageUrl,
+    })),
+    totalResults: results.news.length,
+  };
+};
+
+const searchScholarVertical = async (
+  query: string,
+  body: SerperTool.SearchInput,
+  signal?: AbortSignal,
+): Promise<WebSearchResponse> => {
+  const results = await searchSerperScholar(body, signal);
+
+  return {
+    query,
+    results: results.organic.map((result, index) => ({
+      title: result.title,
+      url: result.link,
+      snippet: result.snippet,
+      position: index + 1,
+      date: result.year?.toString(),
+      citation: {
+        publication: result.publicationInfo,
+        year: result.year,
+        citedBy: result.citedBy,
+        pdfUrl: result.pdfUrl,
+      },
+    })),
+    totalResults: results.organic.length,
+  };
+};
+
+const searchImagesVertical = async (
+  query: string,
+  body: SerperTool.SearchInput,
+  signal?: AbortSignal,
+): Promise<WebSearchResponse> => {
+  const results = await searchSerperImages(body, signal);
+
+  return {
+    query,
+    results: results.images.map((result) => ({
+      title: result.title,
+      url: result.link,
+      snippet: `Image from ${result.source}`,
+      position: result.position,
+      source: result.source,
+      imageUrl: result.imageUrl,
+    })),
+    totalResults: results.images.length,
+  };
+};
+
+const searchPlacesVertical = async (
+  query: string,
+  body: SerperTool.SearchInput,
+  signal?: AbortSignal,
+): Promise<WebSearchResponse> => {
+  const results = await searchSerperPlaces(body, signal);
+
+  return {
+    query,
+    results: results.places.map((place) => ({
+      title: place.title,
+      // Not every place has a website, but every place has a Maps listing
+      url:
+        place.website ??
+        `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${place.title} ${place.address}`)}`,
+      snippet: [
+        place.category,
+        place.address,
+        place.rating !== undefined
+          ? `Rated ${place.rating} (${place.ratingCount ?? 0} reviews)`
+          : undefined,
+        place.phoneNumber,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      position: place.position,
+    })),
+    totalResults: results.places.length,
+  };
+};
+
+export const serperProvider: SearchProvider = {
+  name: "serper",
+  verticals: ["web", "news", "scholar", "images", "places"],
+  search: async (
+    { query, num, vertical = "web", dateRange, locale }: SearchProviderInput,
+    signal,
+  ) => {
+    const body: SerperTool.SearchInput = {
+      q: query,
+      num,
+      ...(dateRange ? { tbs: SERPER_TBS[dateRange] } : {}),
+      ...(locale?.country ? { gl: locale.country } : {}),
+      ...(locale?.language ? { hl: locale.language } : {}),
+      ...(locale?.location ? { location: locale.location } : {}),
+    };
+
+    switch (vertical) {
+      case "news":
+        return searchNewsVertical(query, body, signal);
+      case "scholar":
+        return searchScholarVertical(query, body, signal);
+      case "images":
+        return searchImagesVertical(query, body, signal);
+      case "places":
+        return searchPlacesVertical(query, body, signal);
+      case "web":
+        return searchWebVertical(query, body, signal);
+    }
+  },
+};
@@ -0,0 +1,32 @@
+import type {
+  SearchDateRange,
+  SearchLocale,
+  SearchVertical,
+  WebSearchResponse,
+} from "~/types";
+
+export interface SearchProviderInput {
+  query: string;
+  num: number;
+  // Defaults to "web"
+  vertical?: SearchVertical;
+  dateRange?: SearchDateRange;
+  // Where and in which language to localize results.
+  // Providers ignore the parts they don't support
+  locale?: SearchLocale;
+}
+
+/**
+ * A web search backend. Every provider maps its own response format
+ * onto the shared `WebSearchResponse` shape so callers don't care
+ * which vendor they're talking to.
+ */
+export interface SearchProvider {
+  name: string;
+  // Verticals this provider can search
+  verticals: SearchVertical[];
+  search: (
+    input: SearchProviderInput,
+    signal?: AbortSignal,
+  ) => Promise<WebSearchResponse>;
+}
@@ -4,6 +4,14 @@ export declare namespace SerperTool {
   export type SearchInput = {
     q: string;
     num: number;
+    // Google date restriction, e.g. "qdr:w" for the past week
+    tbs?: string;
+    // Country to search from, e.g. "gb"
+    gl?: string;
+    // Interface language, e.g. "en"
+    hl?: string;
+    // Location to search from, e.g. "London, United Kingdom"
+    location?: string;
   };
 
   export interface SearchParameters {
@@ -15,6 +23,9 @@ export declare namespace SerperTool {
   export interface KnowledgeGraph {
     title: string;
     type: string;
+    description?: string;
+    descriptionSource?: string;
+    descriptionLink?: string;
     rating?: number;
     ratingCount?: number;
     imageUrl?: string;
@@ -54,6 +65,77 @@ export declare namespace SerperTool {
     relatedSearches?: RelatedSearch[];
     credits: number;
   }
+
+  export interface NewsResult {
+    title: string;
+    link: string;
+    snippet: string;
+    date?: string;
+    source: string;
+    imageUrl?: string;
+    position: number;
+  }
+
+  export interface NewsSearchResult {
+    searchParameters: SearchParameters;
+    news: NewsResult[];
+    credits: number;
+  }
+
+  export interface ScholarResult {
+    title: string;
+    link: string;
+    // Authors, venue and year, e.g. "J Smith, A Jones - Nature, 2021"
+    publicationInfo?: string;
+    snippet: string;
+    year?: number;
+    citedBy?: number;
+    pdfUrl?: string;
+    id?: string;
+  }
+
+  export interface ScholarSearchResult {
+    searchParameters: SearchParameters;
+    organic: ScholarResult[];
+    credits: number;
+  }
+
+  export interface ImageResult {
+    title: string;
+    imageUrl: string;
+    thumbnailUrl?: string;
+    source: string;
+    domain: string;
+    // The page the image appears on
+    link: string;
+    position: number;
+  }
+
+  export interface ImageSearchResult {
+    searchParameters: SearchParameters;
+    images: ImageResult[];
+    credits: number;
+  }
+
+  export interface PlaceResult {
+    position: number;
+    title: string;
+    address: string;
+    latitude?: number;
+    longitude?: number;
+    rating?: number;
+    ratingCount?: number;
+    category?: string;
+    phoneNumber?: string;
+    website?: string;
+    cid?: string;
+  }
+
+  export interface PlaceSearchResult {
+    searchParameters: SearchParameters;
+    places: PlaceResult[];
+    credits: number;
+  }
 }
 
 const fetchFromSerper = cacheWithRedis(
@@ -61,7 +143,7 @@ const fetchFromSerper = cacheWithRedis(
   async (
     url: string,
     options: Omit<RequestInit, "headers"> & { signal: AbortSignal | undefined },
-  ): Promise<SerperTool.SearchResult> => {
+  ): Promise<unknown> => {
     if (!process.env.SERPER_API_KEY) {
       throw new Error("SERPER_API_KEY is not set in .env");
     }
@@ -79,10 +161,21 @@ const fetchFromSerper = cacheWithRedis(
       throw new Error(await response.text());
     }
 
-    const json = await response.json();
+    const json: unknown = await response.json();
 
     return json;
   },
+  {
+    // Results drift, but an hour-old page of results is still useful
+    // while a fresh one is fetched
+    ttlSeconds: 60 * 60,
+    staleWhileRevalidateSeconds: 60 * 60 * 5,
+    // The abort signal isn't part of the request
+    getKey: (url, { method, body }) => [url, method, body],
+    // Nor should aborting the request cancel a background refresh
+    getRefreshArgs: (url, options) => [url, { ...options, signal: undefined }] as const,
+    singleFlight: true,
+  },
 );
 
 export const searchSerper = async (
@@ -95,5 +188,57 @@ export const searchSerper = async (
     signal,
   });
 
-  return results;
+  return results as SerperTool.SearchResult;
+};
+
+export const searchSerperNews = async (
+  body: SerperTool.SearchInput,
+  signal: AbortSignal | undefined,
+) => {
+  const results = await fetchFromSerper(`/news`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  return results as SerperTool.NewsSearchResult;
+};
+
+export const searchSerperScholar = async (
+  body: SerperTool.SearchInput,
+  signal: AbortSignal | undefined,
+) => {
+  const results = await fetchFromSerper(`/scholar`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  return results as SerperTool.ScholarSearchResult;
+};
+
+export const searchSerperImages = async (
+  body: SerperTool.SearchInput,
+  signal: AbortSignal | undefined,
+) => {
+  const results = await fetchFromSerper(`/images`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  return results as SerperTool.ImageSearchResult;
+};
+
+export const searchSerperPlaces = async (
+  body: SerperTool.SearchInput,
+  signal: AbortSignal | undefined,
+) => {
+  const results = await fetchFromSerper(`/places`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  return results as SerperTool.PlaceSearchResult;
 };
@@ -0,0 +1,16 @@
+import { auth } from ".";
+
+/**
+ * The signed-in admin, or the response to send back when there isn't one
+ */
+export const getAdmin = async () => {
+  const session = await auth();
+
+  if (!session?.user) {
+    return { error: new Response("Unauthorized", { status: 401 }) };
+  }
+  if (!session.user.isAdmin) {
+    return { error: new Response("Forbidden", { status: 403 }) };
+  }
+  return { user: session.user };
+};
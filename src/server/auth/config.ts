@@ -20,15 +20,13 @@ declare module "next-auth" {
   interface Session extends DefaultSession {
     user: {
       id: string;
-      // ...other properties
-      // role: UserRole;
+      isAdmin: boolean;
     } & DefaultSession["user"];
   }
 
-  // interface User {
-  //   // ...other properties
-  //   // role: UserRole;
-  // }
+  interface User {
+    isAdmin?: boolean;
+  }
 }
 
 /**
@@ -52,6 +50,7 @@ export const authConfig = {
       user: {
         ...session.user,
         id: user.id,
+        isAdmin: user.isAdmin ?? false,
       },
     }),
   },
@@ -0,0 +1,93 @@
+import { checkRateLimit, consumeRateLimits, type RateLimitConfig } from "./rate-limit";
+
+// Rate limiting configuration, keyed per user and shared by every chat
+// endpoint that starts research.
+// Admins get a larger quota than regular users, and every tier
+// has a daily cap on top of the per-minute window.
+// If Redis is down, users' daily cap fails closed to keep costs bounded;
+// everything else fails open.
+const rateLimitTiers: Record<"admin" | "user", RateLimitConfig[]> = {
+  user: [
+    {
+      maxRequests: 20, // 20 requests per minute
+      maxRetries: 3,
+      windowMs: 60_000, // 1 minute window
+      keyPrefix: "chat_api",
+      algorithm: "sliding-log",
+      failurePolicy: "open",
+    },
+    {
+      maxRequests: 200, // 200 requests per day
+      maxRetries: 0, // Don't hold the request open waiting for tomorrow
+      windowMs: 86_400_000, // 1 day window
+      keyPrefix: "chat_api_daily",
+      algorithm: "sliding-window",
+      failurePolicy: "closed",
+    },
+  ],
+  admin: [
+    {
+      maxRequests: 60, // 60 requests per minute
+      maxRetries: 3,
+      windowMs: 60_000, // 1 minute window
+      keyPrefix: "chat_api",
+      algorithm: "sliding-log",
+      failurePolicy: "open",
+    },
+    {
+      maxRequests: 2_000, // 2000 requests per day
+      maxRetries: 0, // Don't hold the request open waiting for tomorrow
+      windowMs: 86_400_000, // 1 day window
+      keyPrefix: "chat_api_daily",
+      algorithm: "sliding-window",
+      failurePolicy: "open",
+    },
+  ],
+};
+
+/**
+ * Apply the user's rate limits to a chat request, waiting out a short
+ * window where the limit allows retries. Returns the 429 response to send
+ * if the request is over a limit, or null to go ahead.
+ */
+export async function enforceChatRateLimits(user: {
+  id: string;
+  isAdmin: boolean;
+}): Promise<Response | null> {
+  const rateLimitConfigs = rateLimitTiers[user.isAdmin ? "admin" : "user"].map(
+    (config) => ({ ...config, identifier: user.id }),
+  );
+
+  // Every limit is checked before any of them records the request
+  let rateLimit = await consumeRateLimits(rateLimitConfigs);
+  let rateLimitRetries = 0;
+
+  while (!rateLimit.allowed) {
+    const { config: rateLimitConfig, result: rateLimitCheck } = rateLimit;
+
+    console.log("🛑 Rate limit exceeded, waiting for reset...");
+    // Waits for the denying limit to allow requests again, then checks them all
+    const isAllowed = rateLimitRetries++ < (rateLimitConfig.maxRetries ?? 0)
+      ? await rateLimitCheck.retry()
+      : false;
+
+    if (!isAllowed) {
+      console.log("❌ Rate limit exceeded after retries");
+      // Re-check so the headers reflect the current window, not the one we waited out
+      const latestCheck = await checkRateLimit(rateLimitConfig);
+      return new Response("Rate limit exceeded", {
+        status: 429,
+        headers: {
+          "Retry-After": latestCheck.retryAfter.toString(),
+          "X-RateLimit-Limit": rateLimitConfig.maxRequests.toString(),
+          "X-RateLimit-Remaining": latestCheck.remaining.toString(),
+          "X-RateLimit-Reset": latestCheck.resetTime.toString(),
+        },
+      });
+    }
+
+    rateLimit = await consumeRateLimits(rateLimitConfigs);
+  }
+
+  return null;
+}
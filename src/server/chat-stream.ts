@@ -0,0 +1,138 @@
+import type { StreamTextResult, UIMessageStreamWriter } from "ai";
+import { recordTokenUsage, recordUsage } from "~/server/db/queries";
+import type { SystemContext } from "~/system-context";
+import type { DatabaseMessage, OurMessage } from "~/types";
+
+// Helper function to transform database message format to AI SDK format
+export function transformDatabaseMessageToAISDK(msg: DatabaseMessage, index: number): OurMessage {
+  console.log(`🔍 Message ${index}:`, {
+    id: msg.id,
+    role: msg.role,
+    contentType: typeof msg.content,
+    content: msg.content,
+    parts: msg.parts,
+    createdAt: msg.createdAt,
+  });
+
+  // In AI SDK v5, messages use parts instead of content
+  // If we have stored parts, use them; otherwise convert content to text part
+  let parts: Array<{ type: string; text?: string; [key: string]: unknown }> = [];
+
+  if (msg.parts && Array.isArray(msg.parts)) {
+    parts = msg.parts;
+  } else if (msg.content) {
+    // Convert legacy content to text part
+    const contentText = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+    parts = [{ type: 'text', text: contentText }];
+  }
+
+  const transformedMessage: OurMessage = {
+    id: msg.id,
+    role: msg.role as "user" | "assistant" | "system",
+    parts: parts as OurMessage['parts'],
+  };
+
+  console.log(`🔍 Transformed message ${index}:`, transformedMessage);
+  return transformedMessage;
+}
+
+/**
+ * Stream the final answer's text into the message, falling back to the
+ * complete text in one go if streaming fails
+ */
+export async function writeAnswer(
+  writer: UIMessageStreamWriter<OurMessage>,
+  result: StreamTextResult<{}, string>,
+) {
+  console.log("🎯 Final answer result received, streaming text content");
+
+  // Stream the text content from the result using the proper delta format
+  try {
+    const messageId = crypto.randomUUID();
+
+    // Send text-start event
+    writer.write({
+      type: "text-start",
+      id: messageId,
+    });
+
+    // Stream text deltas from the result
+    const textStream = result.textStream;
+    for await (const textChunk of textStream) {
+      writer.write({
+        type: "text-delta",
+        id: messageId,
+        delta: textChunk,
+      });
+    }
+
+    // Send text-end event
+    writer.write({
+      type: "text-end",
+      id: messageId,
+    });
+  } catch (error) {
+    console.error("❌ Error streaming final answer:", error);
+    // Fallback to getting complete text as a single delta
+    const finalText = await result.text;
+    if (finalText) {
+      const messageId = crypto.randomUUID();
+      writer.write({
+        type: "text-start",
+        id: messageId,
+      });
+      writer.write({
+        type: "text-delta",
+        id: messageId,
+        delta: finalText,
+      });
+      writer.write({
+        type: "text-end",
+        id: messageId,
+      });
+    }
+  }
+
+  // Wait for the final call's usage to be reported to the context
+  await result.usage;
+}
+
+/**
+ * Persist per-call usage, charge the run against the monthly budget and
+ * send the updated budget, replacing the part with `tokenBudgetPartId`
+ */
+export async function recordRunUsage(opts: {
+  writer: UIMessageStreamWriter<OurMessage>;
+  context: SystemContext;
+  userId: string;
+  chatId: string;
+  messageId: string;
+  tokenBudgetPartId: string;
+}) {
+  const { writer, context, userId, chatId, messageId, tokenBudgetPartId } = opts;
+
+  try {
+    const usageEntries = context.getUsageEntries();
+    const tokensUsed = usageEntries.reduce((sum, entry) => sum + entry.totalTokens, 0);
+
+    await recordUsage({
+      userId,
+      chatId,
+      messageId,
+      entries: usageEntries,
+    });
+
+    const updatedBudget = await recordTokenUsage({
+      userId,
+      tokens: tokensUsed,
+    });
+
+    writer.write({
+      type: "data-tokenBudget",
+      data: updatedBudget,
+      id: tokenBudgetPartId,
+    });
+  } catch (error) {
+    console.error("❌ Error recording usage:", error);
+  }
+}
@@ -0,0 +1,140 @@
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mergeMessages } from "~/utils";
+import { upsertChat } from "./queries";
+
+vi.mock("~/env", () => ({ env: {} }));
+
+vi.mock("~/models", () => ({
+  calculateCost: () => 0,
+  defaultModel: {},
+}));
+
+type MessageRow = { id: string; chatId: string; order: number; parts: unknown };
+
+const store = vi.hoisted(() => ({
+  chats: [] as { id: string; userId: string; title: string }[],
+  messages: [] as { id: string; chatId: string; order: number; parts: unknown }[],
+}));
+
+// Just enough of a drizzle transaction for upsertChat, keyed like the real
+// tables so a duplicate message id fails the insert
+vi.mock("./index", async () => {
+  const schema = await import("./schema");
+
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: async () => store.chats,
+        }),
+      }),
+    }),
+    insert: (table: unknown) => ({
+      values: (values: unknown) => {
+        if (table === schema.chats) {
+          store.chats.push(values as (typeof store.chats)[number]);
+        } else if (table === schema.messages) {
+          for (const row of values as MessageRow[]) {
+            if (store.messages.some((m) => m.chatId === row.chatId && m.id === row.id)) {
+              throw new Error(`duplicate key value: (${row.chatId}, ${row.id})`);
+            }
+            store.messages.push(row);
+          }
+        }
+
+        return { onConflictDoNothing: async () => undefined };
+      },
+    }),
+    update: () => ({
+      set: () => ({ where: async () => undefined }),
+    }),
+    delete: (table: unknown) => ({
+      where: async () => {
+        if (table === schema.messages) {
+          store.messages = [];
+        }
+      },
+    }),
+  };
+
+  return {
+    db: {
+      transaction: async <T>(callback: (t: typeof tx) => Promise<T>) => callback(tx),
+    },
+  };
+});
+
+const message = (id: string, role: "user" | "assistant", text: string): UIMessage => ({
+  id,
+  role,
+  parts: [{ type: "text", text }],
+});
+
+describe("upsertChat", () => {
+  beforeEach(() => {
+    store.chats = [];
+    store.messages = [];
+  });
+
+  it("saves a two-turn chat when the client resends the history", async () => {
+    const firstTurn = [message("u1", "user", "What is pgvector?")];
+    const firstAnswer = [message("a1", "assistant", "A Postgres extension.")];
+
+    await upsertChat({
+      userId: "user-1",
+      chatId: "chat-1",
+      messages: mergeMessages(firstTurn, firstAnswer),
+    });
+
+    // As the chat route builds it: saved history, then the full history
+    // from the client, then the new answer
+    const saved = mergeMessages(firstTurn, firstAnswer);
+    const secondTurn = [...saved, message("u2", "user", "How do I install it?")];
+    const conversation = mergeMessages(saved, secondTurn);
+
+    await upsertChat({
+      userId: "user-1",
+      chatId: "chat-1",
+      messages: mergeMessages(conversation, [
+        message("a2", "assistant", "CREATE EXTENSION vector;"),
+      ]),
+    });
+
+    expect(store.chats).toHaveLength(1);
+    expect(store.messages.map((m) => [m.id, m.order])).toEqual([
+      ["u1", 0],
+      ["a1", 1],
+      ["u2", 2],
+      ["a2", 3],
+    ]);
+  });
+
+  it("saves each message id once", async () => {
+    await upsertChat({
+      userId: "user-1",
+      chatId: "chat-1",
+      messages: [
+        message("u1", "user", "Hi"),
+        message("a1", "assistant", "Hello"),
+        message("a1", "assistant", "Hello there"),
+      ],
+    });
+
+    expect(store.messages.map((m) => m.id)).toEqual(["u1", "a1"]);
+    expect(store.messages[1]?.parts).toEqual([{ type: "text", text: "Hello there" }]);
+  });
+
+  it("refuses to save into another user's chat", async () => {
+    store.chats.push({ id: "chat-1", userId: "user-2", title: "Theirs" });
+
+    await expect(
+      upsertChat({
+        userId: "user-1",
+        chatId: "chat-1",
+        messages: [message("u1", "user", "Hi")],
+      }),
+    ).rejects.toThrow("Chat does not belong to the logged in user");
+  });
+});
+
@@ -1,10 +1,12 @@
 import type { UIMessage } from "ai";
 import { generateText } from "ai";
-import { and, desc, eq } from "drizzle-orm";
-import { defaultModel } from "~/models";
-import { messageToString } from "~/utils";
+import { and, asc, cosineDistance, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { env } from "~/env";
+import { calculateCost, defaultModel } from "~/models";
+import type { ResearchMode, ResearchPlan, SearchHistoryEntry, SearchSource, SourcePolicy, TokenBudget, UsageEntry, UsageReport, UserLocation } from "~/types";
+import { mergeMessages, messageToString } from "~/utils";
 import { db } from "./index";
-import { chats, messages } from "./schema";
+import { answerCache, chats, messages, pausedResearch, tokenBudgets, urlPolicyRules, usage, users } from "./schema";
 
 export const generateChatTitle = async (
   messages: UIMessage[],
@@ -76,10 +78,11 @@ export const upsertChat = async (opts: {
       // Delete existing messages
       await tx.delete(messages).where(eq(messages.chatId, chatId));
       
-      // Insert all messages
+      // Insert all messages, each id once since ids are only unique per chat
       await tx.insert(messages).values(
-        newMessages.map((message, index) => ({
-          id: crypto.randomUUID(),
+        mergeMessages(newMessages).map((message, index) => ({
+          // Keep message ids stable across saves so usage rows can refer to them
+          id: message.id || crypto.randomUUID(),
           chatId,
           role: message.role,
           parts: message.parts,
@@ -150,12 +153,341 @@ export const deleteChat = async (opts: { userId: string; chatId: string }) => {
       throw new Error("Chat not found or access denied");
     }
 
-    // Delete messages first (foreign key constraint)
+    // Delete messages and paused research first (foreign key constraints)
     await tx.delete(messages).where(eq(messages.chatId, chatId));
+    await tx.delete(pausedResearch).where(eq(pausedResearch.chatId, chatId));
     
     // Delete the chat
     await tx.delete(chats).where(eq(chats.id, chatId));
 
     return { success: true };
   });
-}; 
\ No newline at end of file
+};
+
+const getCurrentBudgetPeriod = () => new Date().toISOString().slice(0, 7);
+
+const toTokenBudget = (
+  period: string,
+  budget: { tokenLimit: number; tokensUsed: number } | undefined,
+): TokenBudget => {
+  const limit = budget?.tokenLimit ?? env.MONTHLY_TOKEN_BUDGET;
+  const used = budget?.tokensUsed ?? 0;
+
+  return {
+    period,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+  };
+};
+
+export const getTokenBudget = async (userId: string): Promise<TokenBudget> => {
+  const period = getCurrentBudgetPeriod();
+
+  const [budget] = await db
+    .select()
+    .from(tokenBudgets)
+    .where(
+      and(eq(tokenBudgets.userId, userId), eq(tokenBudgets.period, period)),
+    )
+    .limit(1);
+
+  return toTokenBudget(period, budget);
+};
+
+export const recordTokenUsage = async (opts: {
+  userId: string;
+  tokens: number;
+}): Promise<TokenBudget> => {
+  const { userId, tokens } = opts;
+  const period = getCurrentBudgetPeriod();
+
+  // Increment atomically so concurrent chats can't overwrite each other's usage
+  const [budget] = await db
+    .insert(tokenBudgets)
+    .values({
+      userId,
+      period,
+      tokenLimit: env.MONTHLY_TOKEN_BUDGET,
+      tokensUsed: tokens,
+    })
+    .onConflictDoUpdate({
+      target: [tokenBudgets.userId, tokenBudgets.period],
+      set: {
+        tokensUsed: sql`${tokenBudgets.tokensUsed} + ${tokens}`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return toTokenBudget(period, budget);
+};
+
+export const recordUsage = async (opts: {
+  userId: string;
+  chatId: string;
+  messageId?: string;
+  entries: UsageEntry[];
+}) => {
+  const { userId, chatId, messageId, entries } = opts;
+
+  if (entries.length === 0) {
+    return;
+  }
+
+  await db.insert(usage).values(
+    entries.map((entry) => ({
+      userId,
+      chatId,
+      messageId,
+      description: entry.description,
+      model: entry.model,
+      promptTokens: entry.promptTokens,
+      completionTokens: entry.completionTokens,
+      totalTokens: entry.totalTokens,
+      costUsd: calculateCost(
+        entry.model,
+        entry.promptTokens,
+        entry.completionTokens,
+      ),
+    })),
+  );
+};
+
+export const getUsageReport = async (opts: {
+  // Omit to report across every user
+  userId?: string;
+  chatId?: string;
+  since: Date;
+}): Promise<UsageReport> => {
+  const { userId, chatId, since } = opts;
+
+  const filters = and(
+    gte(usage.createdAt, since),
+    userId ? eq(usage.userId, userId) : undefined,
+    chatId ? eq(usage.chatId, chatId) : undefined,
+  );
+
+  const spend = {
+    totalTokens: sql<number>`coalesce(sum(${usage.totalTokens}), 0)`.mapWith(
+      Number,
+    ),
+    costUsd: sql<number>`coalesce(sum(${usage.costUsd}), 0)`.mapWith(Number),
+  };
+  const day = sql<string>`to_char(date_trunc('day', ${usage.createdAt}), 'YYYY-MM-DD')`;
+
+  const [total, byChat, byDay, byUser] = await Promise.all([
+    db.select(spend).from(usage).where(filters),
+    db
+      .select({ chatId: usage.chatId, title: chats.title, ...spend })
+      .from(usage)
+      .leftJoin(chats, eq(usage.chatId, chats.id))
+      .where(filters)
+      .groupBy(usage.chatId, chats.title)
+      .orderBy(desc(spend.costUsd)),
+    db
+      .select({ day, ...spend })
+      .from(usage)
+      .where(filters)
+      .groupBy(day)
+      .orderBy(asc(day)),
+    db
+      .select({ userId: usage.userId, name: users.name, ...spend })
+      .from(usage)
+      .innerJoin(users, eq(usage.userId, users.id))
+      .where(filters)
+      .groupBy(usage.userId, users.name)
+      .orderBy(desc(spend.costUsd)),
+  ]);
+
+  return {
+    since: since.toISOString(),
+    total: total[0] ?? { totalTokens: 0, costUsd: 0 },
+    byChat,
+    byDay,
+    byUser,
+  };
+};
+
+export const getUrlPolicyRules = async () => {
+  return await db
+    .select()
+    .from(urlPolicyRules)
+    .orderBy(asc(urlPolicyRules.domain));
+};
+
+export const upsertUrlPolicyRule = async (opts: {
+  domain: string;
+  action: "allow" | "block";
+  createdById: string;
+}) => {
+  const { domain, action, createdById } = opts;
+
+  const [rule] = await db
+    .insert(urlPolicyRules)
+    .values({ domain, action, createdById })
+    .onConflictDoUpdate({
+      target: urlPolicyRules.domain,
+      set: { action, createdById, createdAt: new Date() },
+    })
+    .returning();
+
+  return rule;
+};
+
+export const deleteUrlPolicyRule = async (domain: string) => {
+  const deleted = await db
+    .delete(urlPolicyRules)
+    .where(eq(urlPolicyRules.domain, domain))
+    .returning();
+
+  return deleted.length > 0;
+};
+
+export const getSourcePolicies = async (opts: {
+  userId: string;
+  chatId?: string;
+}): Promise<{ user: SourcePolicy | null; chat: SourcePolicy | null }> => {
+  const { userId, chatId } = opts;
+
+  const [user] = await db
+    .select({ sourcePolicy: users.sourcePolicy })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const [chat] = chatId
+    ? await db
+        .select({ sourcePolicy: chats.sourcePolicy })
+        .from(chats)
+        .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+        .limit(1)
+    : [];
+
+  return {
+    user: user?.sourcePolicy ?? null,
+    chat: chat?.sourcePolicy ?? null,
+  };
+};
+
+export const setUserSourcePolicy = async (opts: {
+  userId: string;
+  sourcePolicy: SourcePolicy | null;
+}) => {
+  const { userId, sourcePolicy } = opts;
+
+  await db.update(users).set({ sourcePolicy }).where(eq(users.id, userId));
+};
+
+export const setChatSourcePolicy = async (opts: {
+  userId: string;
+  chatId: string;
+  sourcePolicy: SourcePolicy | null;
+}) => {
+  const { userId, chatId, sourcePolicy } = opts;
+
+  const updated = await db
+    .update(chats)
+    .set({ sourcePolicy })
+    .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+    .returning({ id: chats.id });
+
+  return updated.length > 0;
+};
+
+/**
+ * The user's answer to the question closest to `embedding`, if it's at
+ * least `minSimilarity` alike. Only answers asked from the same place in
+ * the same research mode, newer than `since`, are compared.
+ */
+export const findCachedAnswer = async (opts: {
+  userId: string;
+  location: string;
+  researchMode: ResearchMode;
+  since: Date;
+  embedding: number[];
+  minSimilarity: number;
+}) => {
+  const { userId, location, researchMode, since, embedding, minSimilarity } = opts;
+  const distance = cosineDistance(answerCache.embedding, embedding);
+
+  const [closest] = await db
+    .select({
+      question: answerCache.question,
+      answer: answerCache.answer,
+      sources: answerCache.sources,
+      createdAt: answerCache.createdAt,
+      similarity: sql<number>`1 - (${distance})`,
+    })
+    .from(answerCache)
+    .where(
+      and(
+        eq(answerCache.userId, userId),
+        eq(answerCache.location, location),
+        eq(answerCache.researchMode, researchMode),
+        gte(answerCache.createdAt, since),
+        lte(distance, 1 - minSimilarity),
+      ),
+    )
+    // Ties go to the fresher answer
+    .orderBy(distance, desc(answerCache.createdAt))
+    .limit(1);
+
+  return closest;
+};
+
+export const saveCachedAnswer = async (opts: {
+  userId: string;
+  question: string;
+  embedding: number[];
+  location: string;
+  researchMode: ResearchMode;
+  answer: string;
+  sources: SearchSource[];
+  searchHistory: SearchHistoryEntry[];
+}) => {
+  await db.insert(answerCache).values(opts);
+};
+
+export const savePausedResearch = async (opts: {
+  chatId: string;
+  userId: string;
+  plan: ResearchPlan;
+  researchMode: ResearchMode;
+  userLocation?: UserLocation;
+}) => {
+  const { plan, researchMode, userLocation } = opts;
+
+  await db
+    .insert(pausedResearch)
+    .values(opts)
+    .onConflictDoUpdate({
+      target: pausedResearch.chatId,
+      set: { plan, researchMode, userLocation, createdAt: new Date() },
+    });
+};
+
+// Removes the chat's paused research and returns it, so it can only be
+// resumed once
+export const takePausedResearch = async (opts: {
+  userId: string;
+  chatId: string;
+}) => {
+  const { userId, chatId } = opts;
+
+  const [paused] = await db
+    .delete(pausedResearch)
+    .where(
+      and(
+        eq(pausedResearch.chatId, chatId),
+        eq(pausedResearch.userId, userId),
+      ),
+    )
+    .returning();
+
+  return paused;
+};
+
+export const discardPausedResearch = async (chatId: string) => {
+  await db.delete(pausedResearch).where(eq(pausedResearch.chatId, chatId));
+};
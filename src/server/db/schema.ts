@@ -2,6 +2,7 @@ import type { InferInsertModel, InferSelectModel } from "drizzle-orm";
 import { relations, sql } from "drizzle-orm";
 import {
     boolean,
+    doublePrecision,
     index,
     integer,
     json,
@@ -9,9 +10,11 @@ import {
     primaryKey,
     text,
     timestamp,
-    varchar
+    varchar,
+    vector
 } from "drizzle-orm/pg-core";
-import { type AdapterAccount } from "next-auth/adapters";
+import type { AdapterAccount } from "next-auth/adapters";
+import type { ResearchMode, ResearchPlan, SearchHistoryEntry, SearchSource, SourcePolicy, UserLocation } from "~/types";
 
 export const createTable = pgTableCreator((name) => `fouroneone_${name}`);
 
@@ -28,11 +31,15 @@ export const users = createTable("user", {
   }).default(sql`CURRENT_TIMESTAMP`),
   image: varchar("image", { length: 255 }),
   isAdmin: boolean("is_admin").notNull().default(false),
+  // Default source policy for all of the user's research
+  sourcePolicy: json("source_policy").$type<SourcePolicy>(),
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
   accounts: many(accounts),
   chats: many(chats),
+  tokenBudgets: many(tokenBudgets),
+  usage: many(usage),
 }));
 
 export const accounts = createTable(
@@ -98,6 +105,8 @@ export const chats = createTable(
     userId: varchar("user_id", { length: 255 })
       .notNull()
       .references(() => users.id),
+    // Narrows or overrides the user's source policy for this chat
+    sourcePolicy: json("source_policy").$type<SourcePolicy>(),
     createdAt: timestamp("created_at", {
       mode: "date",
       withTimezone: true,
@@ -119,9 +128,9 @@ export const chats = createTable(
 export const messages = createTable(
   "message",
   {
+    // Chosen by the client, so only unique within a chat
     id: varchar("id", { length: 255 })
       .notNull()
-      .primaryKey()
       .$defaultFn(() => crypto.randomUUID()),
     chatId: varchar("chat_id", { length: 255 })
       .notNull()
@@ -138,11 +147,54 @@ export const messages = createTable(
       .default(sql`CURRENT_TIMESTAMP`),
   },
   (message) => ({
+    compoundKey: primaryKey({ columns: [message.chatId, message.id] }),
     chatIdIdx: index("message_chat_id_idx").on(message.chatId),
     orderIdx: index("message_order_idx").on(message.order),
   }),
 );
 
+export const usage = createTable(
+  "usage",
+  {
+    id: varchar("id", { length: 255 })
+      .notNull()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: varchar("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    // Kept when the chat is deleted so spend reports stay accurate
+    chatId: varchar("chat_id", { length: 255 }).references(() => chats.id, {
+      onDelete: "set null",
+    }),
+    // Not a foreign key: messages are rewritten every time a chat is saved
+    messageId: varchar("message_id", { length: 255 }),
+    // What the call was for, e.g. "get-next-action" or "summarize-url:<url>"
+    description: text("description").notNull(),
+    model: varchar("model", { length: 255 }).notNull(),
+    promptTokens: integer("prompt_tokens").notNull(),
+    completionTokens: integer("completion_tokens").notNull(),
+    totalTokens: integer("total_tokens").notNull(),
+    costUsd: doublePrecision("cost_usd").notNull(),
+    createdAt: timestamp("created_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (usage) => ({
+    userIdIdx: index("usage_user_id_idx").on(usage.userId),
+    chatIdIdx: index("usage_chat_id_idx").on(usage.chatId),
+    createdAtIdx: index("usage_created_at_idx").on(usage.createdAt),
+  }),
+);
+
+export const usageRelations = relations(usage, ({ one }) => ({
+  user: one(users, { fields: [usage.userId], references: [users.id] }),
+  chat: one(chats, { fields: [usage.chatId], references: [chats.id] }),
+}));
+
 export const sessionsRelations = relations(sessions, ({ one }) => ({
   user: one(users, { fields: [sessions.userId], references: [users.id] }),
 }));
@@ -150,12 +202,39 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
 export const chatsRelations = relations(chats, ({ one, many }) => ({
   user: one(users, { fields: [chats.userId], references: [users.id] }),
   messages: many(messages),
+  usage: many(usage),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
   chat: one(chats, { fields: [messages.chatId], references: [chats.id] }),
 }));
 
+export const tokenBudgets = createTable(
+  "token_budget",
+  {
+    userId: varchar("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    // Calendar month the budget applies to, e.g. "2025-07"
+    period: varchar("period", { length: 7 }).notNull(),
+    tokenLimit: integer("token_limit").notNull(),
+    tokensUsed: integer("tokens_used").notNull().default(0),
+    updatedAt: timestamp("updated_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (budget) => ({
+    compoundKey: primaryKey({ columns: [budget.userId, budget.period] }),
+  }),
+);
+
+export const tokenBudgetsRelations = relations(tokenBudgets, ({ one }) => ({
+  user: one(users, { fields: [tokenBudgets.userId], references: [users.id] }),
+}));
+
 export const verificationTokens = createTable(
   "verification_token",
   {
@@ -171,6 +250,102 @@ export const verificationTokens = createTable(
   }),
 );
 
+// Admin-managed crawl rules. Block rules stop a domain (and its subdomains)
+// from being crawled; allow rules let it through even when it resolves to
+// a private address, e.g. an intranet wiki
+export const urlPolicyRules = createTable("url_policy_rule", {
+  domain: varchar("domain", { length: 255 }).notNull().primaryKey(),
+  action: varchar("action", { length: 5 }).$type<"allow" | "block">().notNull(),
+  createdById: varchar("created_by_id", { length: 255 })
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at", {
+    mode: "date",
+    withTimezone: true,
+  })
+    .notNull()
+    .default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const urlPolicyRulesRelations = relations(urlPolicyRules, ({ one }) => ({
+  createdBy: one(users, {
+    fields: [urlPolicyRules.createdById],
+    references: [users.id],
+  }),
+}));
+
+// Researched answers, reused for near-identical questions
+export const answerCache = createTable(
+  "answer_cache",
+  {
+    id: varchar("id", { length: 255 })
+      .notNull()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    // Whose question it was. Answers are only reused for the same user,
+    // since they quote the question back
+    userId: varchar("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    question: text("question").notNull(),
+    // Embedding of the question, compared with cosine distance by pgvector
+    embedding: vector("embedding", { dimensions: 768 }).notNull(),
+    // "country/city" the question was asked from, since answers can depend on it
+    location: varchar("location", { length: 255 }).notNull(),
+    // A quick answer shouldn't stand in for a deep one, or the other way round
+    researchMode: varchar("research_mode", { length: 10 })
+      .$type<ResearchMode>()
+      .notNull()
+      .default("standard"),
+    answer: text("answer").notNull(),
+    sources: json("sources").$type<SearchSource[]>().notNull(),
+    searchHistory: json("search_history")
+      .$type<SearchHistoryEntry[]>()
+      .notNull(),
+    createdAt: timestamp("created_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (answerCache) => ({
+    // A user has few enough cached answers to compare them all, so there's
+    // no vector index to go with this one
+    lookupIdx: index("answer_cache_lookup_idx").on(
+      answerCache.userId,
+      answerCache.location,
+      answerCache.researchMode,
+      answerCache.createdAt,
+    ),
+  }),
+);
+
+// Research stopped after planning so the user can review the plan. One
+// per chat, since only the latest message can be resumed.
+export const pausedResearch = createTable("paused_research", {
+  chatId: varchar("chat_id", { length: 255 })
+    .notNull()
+    .primaryKey()
+    .references(() => chats.id),
+  userId: varchar("user_id", { length: 255 })
+    .notNull()
+    .references(() => users.id),
+  plan: json("plan").$type<ResearchPlan>().notNull(),
+  researchMode: varchar("research_mode", { length: 10 })
+    .$type<ResearchMode>()
+    .notNull(),
+  // Where the question was asked from, so the resumed searches are
+  // localized the same way
+  userLocation: json("user_location").$type<UserLocation>(),
+  createdAt: timestamp("created_at", {
+    mode: "date",
+    withTimezone: true,
+  })
+    .notNull()
+    .default(sql`CURRENT_TIMESTAMP`),
+});
+
 export declare namespace DB {
   export type User = InferSelectModel<typeof users>;
   export type NewUser = InferInsertModel<typeof users>;
@@ -191,4 +366,19 @@ export declare namespace DB {
 
   export type Message = InferSelectModel<typeof messages>;
   export type NewMessage = InferInsertModel<typeof messages>;
+
+  export type Usage = InferSelectModel<typeof usage>;
+  export type NewUsage = InferInsertModel<typeof usage>;
+
+  export type TokenBudget = InferSelectModel<typeof tokenBudgets>;
+  export type NewTokenBudget = InferInsertModel<typeof tokenBudgets>;
+
+  export type UrlPolicyRule = InferSelectModel<typeof urlPolicyRules>;
+  export type NewUrlPolicyRule = InferInsertModel<typeof urlPolicyRules>;
+
+  export type AnswerCache = InferSelectModel<typeof answerCache>;
+  export type NewAnswerCache = InferInsertModel<typeof answerCache>;
+
+  export type PausedResearch = InferSelectModel<typeof pausedResearch>;
+  export type NewPausedResearch = InferInsertModel<typeof pausedResearch>;
 }
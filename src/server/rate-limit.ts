@@ -1,5 +1,15 @@
+import { randomUUID } from "node:crypto";
 import { setTimeout } from "node:timers/promises";
-import { redis } from "./redis/redis";
+import type Redis from "ioredis";
+import { getRedis, recordRedisFallback } from "./redis/client";
+
+export type RateLimitAlgorithm =
+  // Exact: stores a timestamp per request in a sorted set
+  | "sliding-log"
+  // Approximate: weights the previous fixed window by how much of it still overlaps
+  | "sliding-window"
+  // Allows bursts up to maxRequests, refilling at maxRequests per windowMs
+  | "token-bucket";
 
 export interface RateLimitConfig {
   // Maximum number of requests
@@ -7,101 +17,275 @@ export interface RateLimitConfig {
   // Time window in milliseconds
   windowMs: number;
   keyPrefix?: string;
+  // Who the limit applies to (e.g. a user id).
+  // Omit for a single bucket shared by every caller
+  identifier?: string;
+  // Which algorithm to enforce the limit with (default: sliding-window)
+  algorithm?: RateLimitAlgorithm;
   // Maximum number of retries before failing
   maxRetries?: number;
+  // What to do when Redis is down and the limit can't be checked:
+  // "open" lets requests through, "closed" rejects them (default: open)
+  failurePolicy?: "open" | "closed";
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
   // Unix timestamp when the window resets
   resetTime: number;
   // Current number of requests in window
   totalHits: number;
+  // Seconds until the window resets, suitable for a Retry-After header
+  retryAfter: number;
   // Wait for the rate limit to reset,
   // passing a maximum number of retries
   // to avoid infinite recursion
   retry: () => Promise<boolean>;
 }
 
-/**
- * Records a new request in the rate limit window
- */
-export async function recordRateLimit({
-  windowMs,
-  keyPrefix = "rate_limit",
-}: Pick<
-  RateLimitConfig,
-  "windowMs" | "keyPrefix"
->): Promise<void> {
+// Each script takes a trailing `consume` flag so the same atomic logic
+// serves both a read-only check and a check-and-record.
+
+// KEYS[1] log key
+// ARGV: now, windowMs, maxRequests, consume, member
+// Returns: allowed, count, oldest timestamp in the window
+const SLIDING_LOG_SCRIPT = `
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local maxRequests = tonumber(ARGV[3])
+local consume = tonumber(ARGV[4])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - windowMs)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = count < maxRequests
+
+if allowed and consume == 1 then
+  redis.call('ZADD', KEYS[1], now, ARGV[5])
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+  count = count + 1
+end
+
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed and 1 or 0, count, oldest[2] or now }
+`;
+
+// KEYS[1] current window key, KEYS[2] previous window key
+// ARGV: previousWeight, windowMs, maxRequests, consume
+// Returns: allowed, current count, previous count
+const SLIDING_WINDOW_SCRIPT = `
+local previousWeight = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local maxRequests = tonumber(ARGV[3])
+local consume = tonumber(ARGV[4])
+
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local allowed = previous * previousWeight + current < maxRequests
+
+if allowed and consume == 1 then
+  current = redis.call('INCR', KEYS[1])
+  -- Keep the counter around for the next window, where it becomes "previous"
+  redis.call('PEXPIRE', KEYS[1], windowMs * 2)
+end
+
+return { allowed and 1 or 0, current, previous }
+`;
+
+// KEYS[1] bucket key
+// ARGV: now, windowMs, maxRequests, consume
+// Returns: allowed, tokens left (as a string, Lua numbers are truncated otherwise)
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local maxRequests = tonumber(ARGV[3])
+local consume = tonumber(ARGV[4])
+local refillPerMs = maxRequests / windowMs
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or maxRequests
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(maxRequests, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+local allowed = tokens >= 1
+
+if allowed and consume == 1 then
+  tokens = tokens - 1
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+end
+
+return { allowed and 1 or 0, tostring(tokens) }
+`;
+
+// Retry-After for requests rejected because the limit couldn't be checked
+const RATE_LIMIT_UNAVAILABLE_RETRY_MS = 30_000;
+
+const getRateLimitKey = (keyPrefix: string, identifier?: string) =>
+  identifier ? `${keyPrefix}:${identifier}` : keyPrefix;
+
+const getRetryAfterSeconds = (resetTime: number) =>
+  Math.max(0, Math.ceil((resetTime - Date.now()) / 1000));
+
+type RateLimitState = Pick<
+  RateLimitResult,
+  "allowed" | "remaining" | "resetTime" | "totalHits"
+>;
+
+const runSlidingLog = async (
+  redis: Redis,
+  key: string,
+  { maxRequests, windowMs }: RateLimitConfig,
+  consume: boolean,
+): Promise<RateLimitState> => {
   const now = Date.now();
-  const windowStart =
-    Math.floor(now / windowMs) * windowMs;
-  const key = `${keyPrefix}:${windowStart}`;
+  const [allowed, count, oldest] = (await redis.eval(
+    SLIDING_LOG_SCRIPT,
+    1,
+    `${key}:log`,
+    now,
+    windowMs,
+    maxRequests,
+    consume ? 1 : 0,
+    `${now}:${randomUUID()}`,
+  )) as [number, number, string];
 
-  try {
-    const pipeline = redis.pipeline();
-    pipeline.incr(key);
-    pipeline.expire(key, Math.ceil(windowMs / 1000));
+  return {
+    allowed: allowed === 1,
+    remaining: Math.max(0, maxRequests - count),
+    // A slot frees up once the oldest request falls out of the window
+    resetTime: Number(oldest) + windowMs,
+    totalHits: count,
+  };
+};
 
-    const results = await pipeline.exec();
+const runSlidingWindow = async (
+  redis: Redis,
+  key: string,
+  { maxRequests, windowMs }: RateLimitConfig,
+  consume: boolean,
+): Promise<RateLimitState> => {
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const previousWeight = 1 - (now - windowStart) / windowMs;
 
-    if (!results) {
-      throw new Error(
-        "Redis pipeline execution failed",
-      );
-    }
-  } catch (error) {
-    console.error(
-      "Rate limit recording failed:",
-      error,
+  const [allowed, current, previous] = (await redis.eval(
+    SLIDING_WINDOW_SCRIPT,
+    2,
+    `${key}:${windowStart}`,
+    `${key}:${windowStart - windowMs}`,
+    previousWeight,
+    windowMs,
+    maxRequests,
+    consume ? 1 : 0,
+  )) as [number, number, number];
+
+  const estimated = previous * previousWeight + current;
+
+  // The previous window's weight decays linearly, so we can work out
+  // when enough of it has expired to let another request through.
+  // If the current window alone is full, we have to wait for it to end.
+  let resetTime = windowStart + windowMs;
+  if (current < maxRequests && previous > 0) {
+    const elapsedWhenAllowed =
+      windowMs * (1 - (maxRequests - current) / previous);
+    resetTime = Math.min(
+      resetTime,
+      windowStart + Math.max(0, elapsedWhenAllowed),
     );
-    throw error;
   }
-}
 
-/**
- * Checks if a request is allowed under the current rate limit
- * without incrementing the counter
- */
-export async function checkRateLimit({
-  maxRequests,
-  windowMs,
-  keyPrefix = "rate_limit",
-  maxRetries = 3,
-}: RateLimitConfig): Promise<RateLimitResult> {
+  return {
+    allowed: allowed === 1,
+    remaining: Math.max(0, Math.floor(maxRequests - estimated)),
+    resetTime,
+    totalHits: Math.ceil(estimated),
+  };
+};
+
+const runTokenBucket = async (
+  redis: Redis,
+  key: string,
+  { maxRequests, windowMs }: RateLimitConfig,
+  consume: boolean,
+): Promise<RateLimitState> => {
   const now = Date.now();
-  const windowStart =
-    Math.floor(now / windowMs) * windowMs;
-  const key = `${keyPrefix}:${windowStart}`;
+  const [allowed, tokensLeft] = (await redis.eval(
+    TOKEN_BUCKET_SCRIPT,
+    1,
+    `${key}:bucket`,
+    now,
+    windowMs,
+    maxRequests,
+    consume ? 1 : 0,
+  )) as [number, string];
 
-  try {
-    const currentCount = await redis.get(key);
-    const count = currentCount
-      ? parseInt(currentCount, 10)
-      : 0;
+  const tokens = Number(tokensLeft);
+  const refillPerMs = maxRequests / windowMs;
+
+  return {
+    allowed: allowed === 1,
+    remaining: Math.floor(tokens),
+    // When denied, the next token arrives; otherwise the bucket is full again
+    resetTime:
+      now +
+      Math.ceil(
+        (tokens >= 1 ? maxRequests - tokens : 1 - tokens) / refillPerMs,
+      ),
+    totalHits: maxRequests - Math.floor(tokens),
+  };
+};
+
+const rateLimitAlgorithms: Record<
+  RateLimitAlgorithm,
+  (
+    redis: Redis,
+    key: string,
+    config: RateLimitConfig,
+    consume: boolean,
+  ) => Promise<RateLimitState>
+> = {
+  "sliding-log": runSlidingLog,
+  "sliding-window": runSlidingWindow,
+  "token-bucket": runTokenBucket,
+};
 
-    const allowed = count < maxRequests;
-    const remaining = Math.max(0, maxRequests - count);
-    const resetTime = windowStart + windowMs;
+async function evaluateRateLimit(
+  config: RateLimitConfig,
+  consume: boolean,
+): Promise<RateLimitResult> {
+  const {
+    maxRequests,
+    windowMs,
+    keyPrefix = "rate_limit",
+    identifier,
+    algorithm = "sliding-window",
+    maxRetries = 3,
+    failurePolicy = "open",
+  } = config;
+  const key = getRateLimitKey(keyPrefix, identifier);
+
+  try {
+    const redis = await getRedis();
+    const state = await rateLimitAlgorithms[algorithm](
+      redis,
+      key,
+      config,
+      consume,
+    );
 
     let retryCount = 0;
 
     const retry = async (): Promise<boolean> => {
-      if (!allowed) {
-        const waitTime = resetTime - Date.now();
+      if (!state.allowed) {
+        const waitTime = state.resetTime - Date.now();
         if (waitTime > 0) {
           console.log(`Rate limit exceeded, waiting ${waitTime}ms for reset...`);
           await setTimeout(waitTime);
         }
 
         // Check rate limit again after waiting
-        const retryResult = await checkRateLimit({
-          maxRequests,
-          windowMs,
-          keyPrefix,
-          maxRetries,
-        });
+        const retryResult = await evaluateRateLimit(config, consume);
 
         if (!retryResult.allowed) {
           if (retryCount >= maxRetries) {
@@ -117,21 +301,85 @@ export async function checkRateLimit({
     };
 
     return {
-      allowed,
-      remaining,
-      resetTime,
-      totalHits: count,
+      ...state,
+      retryAfter: state.allowed ? 0 : getRetryAfterSeconds(state.resetTime),
       retry,
     };
   } catch (error) {
-    console.error("Rate limit check failed:", error);
-    // Fail open
+    recordRedisFallback(`rate-limit:${keyPrefix}`, error);
+
+    if (failurePolicy === "closed") {
+      // Ask the client to come back once Redis has had a chance to recover
+      const resetTime = Date.now() + Math.min(windowMs, RATE_LIMIT_UNAVAILABLE_RETRY_MS);
+      return {
+        allowed: false,
+        remaining: 0,
+        resetTime,
+        totalHits: 0,
+        retryAfter: getRetryAfterSeconds(resetTime),
+        retry: async () => false,
+      };
+    }
+
     return {
       allowed: true,
       remaining: maxRequests - 1,
-      resetTime: windowStart + windowMs,
+      resetTime: Date.now() + windowMs,
       totalHits: 0,
+      retryAfter: 0,
       retry: async () => true,
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Atomically checks the rate limit and, if allowed, records the request.
+ * Retrying also records the request once it gets through.
+ */
+export async function consumeRateLimit(
+  config: RateLimitConfig,
+): Promise<RateLimitResult> {
+  return evaluateRateLimit(config, true);
+}
+
+/**
+ * Checks if a request is allowed under the current rate limit
+ * without recording it
+ */
+export async function checkRateLimit(
+  config: RateLimitConfig,
+): Promise<RateLimitResult> {
+  return evaluateRateLimit(config, false);
+}
+
+export type RateLimitsResult =
+  | { allowed: true }
+  | { allowed: false; config: RateLimitConfig; result: RateLimitResult };
+
+/**
+ * Records a request against several limits (e.g. per minute and per day),
+ * but only once every one of them allows it, so a request the daily cap
+ * turns away doesn't use up the per-minute quota as well. Returns the
+ * first limit that denied it otherwise.
+ */
+export async function consumeRateLimits(
+  configs: RateLimitConfig[],
+): Promise<RateLimitsResult> {
+  for (const config of configs) {
+    const result = await checkRateLimit(config);
+    if (!result.allowed) {
+      return { allowed: false, config, result };
+    }
+  }
+
+  // Another request can take the last slot between the check and here,
+  // in which case the limits consumed before it keep this request
+  for (const config of configs) {
+    const result = await consumeRateLimit(config);
+    if (!result.allowed) {
+      return { allowed: false, config, result };
+    }
+  }
+
+  return { allowed: true };
+}
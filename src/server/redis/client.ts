@@ -0,0 +1,105 @@
+import { once } from "node:events";
+import { setTimeout } from "node:timers/promises";
+import Redis from "ioredis";
+import { env } from "~/env";
+
+export class RedisUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`Redis is unavailable: ${reason}`);
+    this.name = "RedisUnavailableError";
+  }
+}
+
+let client: Redis | undefined;
+
+// Created on first use rather than at import, so importing a module that
+// caches doesn't need Redis to be up
+const getClient = () => {
+  if (!client) {
+    client = new Redis(env.REDIS_URL, {
+      // Fail commands quickly instead of queueing them while disconnected;
+      // callers have a fallback
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+      commandTimeout: env.REDIS_COMMAND_TIMEOUT_MS,
+      connectTimeout: env.REDIS_COMMAND_TIMEOUT_MS,
+    });
+    // Reconnection is automatic; without a listener ioredis logs every
+    // failed attempt as an unhandled error
+    client.on("error", (error) => {
+      console.error("Redis error:", error.message);
+    });
+  }
+  return client;
+};
+
+/**
+ * The Redis client, once it's connected. Throws `RedisUnavailableError`
+ * when it isn't, rather than waiting for a reconnect.
+ */
+export const getRedis = async (): Promise<Redis> => {
+  const redis = getClient();
+
+  // The very first call has to wait for the initial connection
+  if (
+    redis.status === "wait" ||
+    redis.status === "connecting" ||
+    redis.status === "connect"
+  ) {
+    await Promise.race([
+      // An "error" event rejects this; the status check below covers it
+      once(redis, "ready").catch(() => undefined),
+      setTimeout(env.REDIS_COMMAND_TIMEOUT_MS),
+    ]);
+  }
+
+  if (redis.status !== "ready") {
+    throw new RedisUnavailableError(redis.status);
+  }
+  return redis;
+};
+
+// How often each consumer has had to do without Redis, since startup
+const fallbackCounts = new Map<string, number>();
+
+/**
+ * Note that a consumer (e.g. "cache" or "rate-limit:chat_api") carried on
+ * without Redis
+ */
+export const recordRedisFallback = (consumer: string, error: unknown) => {
+  const count = (fallbackCounts.get(consumer) ?? 0) + 1;
+  fallbackCounts.set(consumer, count);
+
+  // Log the first fallback and then every 100th, so an outage doesn't
+  // flood the logs
+  if (count === 1 || count % 100 === 0) {
+    console.warn(
+      `⚠️ ${consumer} fell back without Redis (${count} times):`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+};
+
+export interface RedisHealth {
+  status: "up" | "down";
+  latencyMs?: number;
+  error?: string;
+  fallbacks: Record<string, number>;
+}
+
+export const checkRedisHealth = async (): Promise<RedisHealth> => {
+  const fallbacks = Object.fromEntries(fallbackCounts);
+  const start = Date.now();
+
+  try {
+    const redis = await getRedis();
+    await redis.ping();
+    return { status: "up", latencyMs: Date.now() - start, fallbacks };
+  } catch (error) {
+    return {
+      status: "down",
+      error: error instanceof Error ? error.message : String(error),
+      fallbacks,
+    };
+  }
+};
@@ -0,0 +1,66 @@
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * A small least-recently-used cache with per-entry expiry. Stands in for
+ * Redis during an outage, so it's per process and forgets on restart.
+ */
+export class MemoryCache {
+  // Map iterates in insertion order, so the first key is the least
+  // recently used one as long as reads re-insert their entry
+  private entries = new Map<string, MemoryCacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlSeconds: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  // Like SET NX: only sets the key if it's missing or expired
+  setIfAbsent(key: string, value: string, ttlSeconds: number): boolean {
+    if (this.get(key) !== null) {
+      return false;
+    }
+    this.set(key, value, ttlSeconds);
+    return true;
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  deletePrefix(prefix: string): number {
+    let deleted = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { cacheWithRedis } from "./redis";
+
+vi.mock("~/env", () => ({ env: { REDIS_FALLBACK_CACHE_SIZE: 100 } }));
+
+// Redis is down, so everything goes through the in-memory fallback
+vi.mock("./client", () => ({
+  getRedis: async () => {
+    throw new Error("Redis is down");
+  },
+  recordRedisFallback: () => undefined,
+}));
+
+describe("cacheWithRedis", () => {
+  it("revalidates stale entries without the triggering request's callbacks", async () => {
+    const fn = vi.fn(
+      async (query: string, reportUsage?: (tokens: number) => void) => {
+        reportUsage?.(10);
+        return `results for ${query}`;
+      },
+    );
+    const cached = cacheWithRedis("swr-test", fn, {
+      // Stale as soon as it's stored
+      ttlSeconds: 0,
+      staleWhileRevalidateSeconds: 60,
+      getKey: (...[query]) => query,
+    });
+
+    const firstRequest = vi.fn();
+    const secondRequest = vi.fn();
+
+    await cached("rust", firstRequest);
+    expect(await cached("rust", secondRequest)).toBe("results for rust");
+
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(2));
+    expect(fn).toHaveBeenLastCalledWith("rust", undefined);
+    expect(firstRequest).toHaveBeenCalledTimes(1);
+    expect(secondRequest).not.toHaveBeenCalled();
+  });
+
+  it("uses getRefreshArgs for background revalidation", async () => {
+    const fn = vi.fn(async (query: string, page: number) => `${query} page ${page}`);
+    const cached = cacheWithRedis("swr-refresh-args-test", fn, {
+      ttlSeconds: 0,
+      staleWhileRevalidateSeconds: 60,
+      getKey: (...[query]) => query,
+      getRefreshArgs: (...[query]) => [query, 1] as const,
+    });
+
+    await cached("rust", 3);
+    await cached("rust", 3);
+
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(2));
+    expect(fn).toHaveBeenLastCalledWith("rust", 1);
+  });
+});
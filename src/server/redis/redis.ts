@@ -1,25 +1,275 @@
+import { createHash, randomUUID } from "node:crypto";
+import type Redis from "ioredis";
 import { env } from "~/env";
-import Redis from "ioredis";
+import { getRedis, recordRedisFallback } from "./client";
+import { MemoryCache } from "./memory-cache";
 
-export const redis = new Redis(env.REDIS_URL);
+// Every prefix passed to cacheWithRedis, so an admin purge can't reach other
+// keys such as the rate limits. Listed by hand because a route only loads the
+// modules it imports, which rules out having cacheWithRedis register them
+export const CACHE_PREFIXES = [
+  "crawlWebsite",
+  "robotsTxt",
+  "serper",
+  "brave",
+  "bing",
+  "searxng",
+  "summarizeURL",
+] as const;
 
-const CACHE_EXPIRY_SECONDS = 60 * 60 * 6; // 6 hours
+const DEFAULT_TTL_SECONDS = 60 * 60 * 6; // 6 hours
 const CACHE_KEY_SEPARATOR = ":";
+// Only one caller refreshes a stale entry at a time
+const REFRESH_LOCK_SECONDS = 30;
+// How long a single-flight caller may hold the lock before others give up
+// waiting and run the function themselves
+const SINGLE_FLIGHT_LOCK_SECONDS = 60;
+const SINGLE_FLIGHT_POLL_MS = 200;
 
-export const cacheWithRedis = <TFunc extends (...args: any[]) => Promise<any>>(
+// Deletes the lock only if we still hold it, not one that expired and
+// was taken by someone else
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+export interface CacheOptions<TArgs extends unknown[], TResult> {
+  // How long a result is served as fresh
+  ttlSeconds?: number;
+  // How long after that a stale result is still served while a fresh one is
+  // fetched in the background. Off by default.
+  staleWhileRevalidateSeconds?: number;
+  // Bump when the function's output changes, e.g. after editing a prompt,
+  // so entries from the old version are no longer read
+  version?: number;
+  // Which arguments identify a result. Defaults to all of them; leave out
+  // ones that don't affect the output, like callbacks and trace IDs.
+  getKey?: (...args: NoInfer<TArgs>) => unknown;
+  // Arguments for a background revalidation, which runs on no request's
+  // behalf. Defaults to the triggering call's with callbacks like
+  // `reportUsage` left out, so that request isn't charged for it.
+  getRefreshArgs?: (...args: NoInfer<TArgs>) => NoInfer<TArgs>;
+  // Return false to skip caching a result, e.g. a transient failure
+  shouldCache?: (result: NoInfer<TResult>) => boolean;
+  // Make concurrent calls with the same key, from any server, share one
+  // execution: the first takes a lock and the rest wait for its result
+  singleFlight?: boolean;
+}
+
+const memoryCache = new MemoryCache(env.REDIS_FALLBACK_CACHE_SIZE);
+
+// Caching is an optimisation, so when Redis is down we carry on with a
+// per-process LRU instead of failing the search or crawl behind it
+const withFallback = async <T>(
+  withRedis: (redis: Redis) => Promise<T>,
+  withMemory: () => T,
+): Promise<T> => {
+  try {
+    return await withRedis(await getRedis());
+  } catch (error) {
+    recordRedisFallback("cache", error);
+    return withMemory();
+  }
+};
+
+const cacheStore = {
+  get: (key: string) =>
+    withFallback(
+      (redis) => redis.get(key),
+      () => memoryCache.get(key),
+    ),
+  set: (key: string, value: string, ttlSeconds: number) =>
+    withFallback(
+      async (redis) => {
+        await redis.set(key, value, "EX", ttlSeconds);
+      },
+      () => memoryCache.set(key, value, ttlSeconds),
+    ),
+  setIfAbsent: (key: string, value: string, ttlSeconds: number) =>
+    withFallback(
+      async (redis) =>
+        (await redis.set(key, value, "EX", ttlSeconds, "NX")) === "OK",
+      () => memoryCache.setIfAbsent(key, value, ttlSeconds),
+    ),
+  releaseLock: (key: string, token: string) =>
+    withFallback(
+      async (redis) => {
+        await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+      },
+      () => {
+        if (memoryCache.get(key) === token) {
+          memoryCache.delete(key);
+        }
+      },
+    ),
+};
+
+interface CacheEntry<TResult> {
+  value: TResult;
+  staleAt: number;
+}
+
+// Arguments can be whole scraped pages, so hash them rather than
+// putting them in the key
+const hashKey = (value: unknown) =>
+  createHash("sha256")
+    .update(JSON.stringify(value) ?? "")
+    .digest("hex");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readEntry = async <TResult>(key: string) => {
+  const cachedResult = await cacheStore.get(key);
+  return cachedResult
+    ? (JSON.parse(cachedResult) as CacheEntry<TResult>)
+    : undefined;
+};
+
+// Calls in this process that are already waiting on a key
+const inFlight = new Map<string, Promise<unknown>>();
+
+export const cacheWithRedis = <TArgs extends unknown[], TResult>(
   keyPrefix: string,
-  fn: TFunc,
-): TFunc => {
-  return (async (...args: Parameters<TFunc>) => {
-    const key = `${keyPrefix}${CACHE_KEY_SEPARATOR}${JSON.stringify(args)}`;
-    const cachedResult = await redis.get(key);
-    if (cachedResult) {
-      console.log(`Cache hit for ${key}`);
-      return JSON.parse(cachedResult);
+  fn: (...args: TArgs) => Promise<TResult>,
+  {
+    ttlSeconds = DEFAULT_TTL_SECONDS,
+    staleWhileRevalidateSeconds = 0,
+    version = 1,
+    getKey = (...args) => args,
+    getRefreshArgs = (...args) =>
+      args.map((arg) => (typeof arg === "function" ? undefined : arg)) as TArgs,
+    shouldCache,
+    singleFlight = false,
+  }: CacheOptions<TArgs, TResult> = {},
+): ((...args: TArgs) => Promise<TResult>) => {
+  const store = async (key: string, result: TResult) => {
+    if (shouldCache && !shouldCache(result)) {
+      return;
+    }
+    const entry: CacheEntry<TResult> = {
+      value: result,
+      staleAt: Date.now() + ttlSeconds * 1000,
+    };
+    await cacheStore.set(
+      key,
+      JSON.stringify(entry),
+      ttlSeconds + staleWhileRevalidateSeconds,
+    );
+  };
+
+  const refresh = async (key: string, args: TArgs) => {
+    const lock = await cacheStore.setIfAbsent(
+      `${key}${CACHE_KEY_SEPARATOR}refresh`,
+      "1",
+      REFRESH_LOCK_SECONDS,
+    );
+    if (!lock) {
+      return;
+    }
+    await store(key, await fn(...args));
+  };
+
+  const computeOnce = async (key: string, args: TArgs): Promise<TResult> => {
+    const lockKey = `${key}${CACHE_KEY_SEPARATOR}lock`;
+    const token = randomUUID();
+
+    for (;;) {
+      const lock = await cacheStore.setIfAbsent(
+        lockKey,
+        token,
+        SINGLE_FLIGHT_LOCK_SECONDS,
+      );
+      if (lock) {
+        try {
+          const result = await fn(...args);
+          await store(key, result);
+          return result;
+        } finally {
+          await cacheStore.releaseLock(lockKey, token);
+        }
+      }
+
+      // Someone else is computing it. If they finish without caching a
+      // result (an error, or shouldCache said no) the lock goes away and
+      // we take it on the next pass.
+      await sleep(SINGLE_FLIGHT_POLL_MS);
+      const entry = await readEntry<TResult>(key);
+      if (entry) {
+        console.log(`Shared in-flight result for ${key}`);
+        return entry.value;
+      }
+    }
+  };
+
+  const compute = async (key: string, args: TArgs) => {
+    if (!singleFlight) {
+      const result = await fn(...args);
+      await store(key, result);
+      return result;
+    }
+
+    const existing = inFlight.get(key) as Promise<TResult> | undefined;
+    if (existing) {
+      return existing;
+    }
+    const promise = computeOnce(key, args).finally(() => {
+      inFlight.delete(key);
+    });
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return async (...args: TArgs) => {
+    const key = [keyPrefix, `v${version}`, hashKey(getKey(...args))].join(
+      CACHE_KEY_SEPARATOR,
+    );
+
+    const entry = await readEntry<TResult>(key);
+    if (entry) {
+      if (entry.staleAt > Date.now()) {
+        console.log(`Cache hit for ${key}`);
+        return entry.value;
+      }
+
+      console.log(`Stale cache hit for ${key}, revalidating`);
+      refresh(key, getRefreshArgs(...args)).catch((error) => {
+        console.error(`Failed to revalidate ${key}:`, error);
+      });
+      return entry.value;
+    }
+
+    return compute(key, args);
+  };
+};
+
+/**
+ * Delete every cached entry under a prefix, e.g. "summarizeURL" or
+ * "summarizeURL:v1". Returns how many keys were removed.
+ *
+ * Throws `RedisUnavailableError` if Redis is down, after clearing this
+ * process's fallback cache.
+ */
+export const purgeCache = async (prefix: string): Promise<number> => {
+  let deleted = memoryCache.deletePrefix(`${prefix}${CACHE_KEY_SEPARATOR}`);
+  const redis = await getRedis();
+  let cursor = "0";
+
+  // SCAN rather than KEYS so a big cache doesn't block Redis
+  do {
+    const [nextCursor, keys] = await redis.scan(
+      cursor,
+      "MATCH",
+      `${prefix}${CACHE_KEY_SEPARATOR}*`,
+      "COUNT",
+      500,
+    );
+    cursor = nextCursor;
+    if (keys.length > 0) {
+      deleted += await redis.unlink(...keys);
     }
+  } while (cursor !== "0");
 
-    const result = await fn(...args);
-    await redis.set(key, JSON.stringify(result), "EX", CACHE_EXPIRY_SECONDS);
-    return result;
-  }) as TFunc;
+  return deleted;
 };
@@ -0,0 +1,119 @@
+import { chromium, type Browser } from "playwright-core";
+import { env } from "~/env";
+import { checkUrlPolicy, resolveRedirects, UrlPolicyError } from "./url-policy";
+
+// Resources that don't affect the rendered text, so there's no point waiting on them
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "media", "font", "stylesheet"]);
+
+let browserPromise: Promise<Browser> | undefined;
+
+const getBrowser = async (): Promise<Browser> => {
+  if (browserPromise) {
+    const browser = await browserPromise.catch(() => undefined);
+    if (browser?.isConnected()) {
+      return browser;
+    }
+  }
+
+  browserPromise = chromium.launch({
+    executablePath: env.CHROMIUM_EXECUTABLE_PATH,
+    headless: true,
+  });
+
+  const browser = await browserPromise;
+  // Relaunch on the next render if Chromium crashes or gets closed
+  browser.on("disconnected", () => {
+    browserPromise = undefined;
+  });
+  return browser;
+};
+
+// Rendering is expensive, so only a handful of pages render at once
+// and the rest wait their turn
+let activeRenders = 0;
+const renderQueue: (() => void)[] = [];
+
+const acquireRenderSlot = async () => {
+  if (activeRenders < env.BROWSER_RENDER_CONCURRENCY) {
+    activeRenders++;
+    return;
+  }
+  // The slot is handed straight over by releaseRenderSlot
+  await new Promise<void>((resolve) => renderQueue.push(resolve));
+};
+
+const releaseRenderSlot = () => {
+  const next = renderQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activeRenders--;
+  }
+};
+
+/**
+ * Load a page in headless Chromium and return its HTML once
+ * client-side scripts have had a chance to render it
+ */
+export const renderPage = async (url: string): Promise<string> => {
+  // Chromium follows redirects without routing them through the check
+  // below, so find where this one leads, checking every hop, and go
+  // straight there
+  const targetUrl = await resolveRedirects(url, {
+    headers: { "User-Agent": env.CRAWLER_USER_AGENT },
+    signal: AbortSignal.timeout(env.BROWSER_RENDER_TIMEOUT_MS),
+  });
+
+  await acquireRenderSlot();
+
+  try {
+    const browser = await getBrowser();
+    const context = await browser.newContext({
+      javaScriptEnabled: true,
+      userAgent: env.CRAWLER_USER_AGENT,
+    });
+
+    try {
+      const page = await context.newPage();
+      await page.route("**/*", async (route) => {
+        const request = route.request();
+        if (BLOCKED_RESOURCE_TYPES.has(request.resourceType())) {
+          return route.abort();
+        }
+        // Scripts on the page could otherwise reach into our network
+        const policy = await checkUrlPolicy(request.url());
+        return policy.allowed
+          ? route.continue()
+          : route.abort("blockedbyclient");
+      });
+
+      const response = await page.goto(targetUrl, {
+        waitUntil: "domcontentloaded",
+        timeout: env.BROWSER_RENDER_TIMEOUT_MS,
+      });
+
+      if (response && !response.ok()) {
+        throw new Error(`${response.status()} ${response.statusText()}`);
+      }
+
+      // The site could still redirect the browser somewhere else, so check where we ended up
+      const finalPolicy = await checkUrlPolicy(page.url());
+      if (!finalPolicy.allowed) {
+        throw new UrlPolicyError(page.url(), finalPolicy.reason);
+      }
+
+      // Pages that keep polling never go idle, so settle for what we have
+      await page
+        .waitForLoadState("networkidle", {
+          timeout: env.BROWSER_RENDER_TIMEOUT_MS,
+        })
+        .catch(() => undefined);
+
+      return await page.content();
+    } finally {
+      await context.close();
+    }
+  } finally {
+    releaseRenderSlot();
+  }
+};
@@ -0,0 +1,35 @@
+// Consecutive transient failures before we stop sending a host requests
+const FAILURE_THRESHOLD = 5;
+// How long to leave a host alone once its circuit opens
+const COOLDOWN_MS = 60_000;
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+/**
+ * Whether a host has been failing badly enough that we shouldn't try it.
+ * Once the cooldown passes, requests are let through again; a single
+ * further failure re-opens the circuit, a success closes it.
+ */
+export const isCircuitOpen = (host: string): boolean =>
+  (circuits.get(host)?.openUntil ?? 0) > Date.now();
+
+export const recordHostSuccess = (host: string) => {
+  circuits.delete(host);
+};
+
+export const recordHostFailure = (host: string) => {
+  const state = circuits.get(host) ?? { failures: 0, openUntil: 0 };
+  state.failures++;
+
+  if (state.failures >= FAILURE_THRESHOLD) {
+    state.openUntil = Date.now() + COOLDOWN_MS;
+    console.log(`🔌 Circuit open for ${host} after ${state.failures} failures`);
+  }
+
+  circuits.set(host, state);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { extractMainContent } from "./content-extractor";
+
+const ARTICLE_TEXT = [
+  "The city council voted on Tuesday to expand the bike lane network, adding forty kilometres of protected lanes over the next three years.",
+  "Supporters said the plan would cut traffic deaths, while some shop owners worried about losing parking spaces in front of their stores.",
+  "Funding comes from a mix of federal grants, the transport levy and a small increase in parking fees, according to the council's budget office.",
+];
+
+const page = `<!doctype html>
+<html>
+  <head>
+    <title>Council expands bike lanes | City News</title>
+    <meta property="og:site_name" content="City News">
+    <meta name="author" content="Jane Reporter">
+    <meta property="article:published_time" content="2024-05-14T09:00:00Z">
+    <link rel="canonical" href="/news/bike-lanes">
+  </head>
+  <body>
+    <header><a href="/">City News</a> <a href="/sports">Sports</a></header>
+    <nav><ul><li><a href="/news">News</a></li><li><a href="/weather">Weather</a></li></ul></nav>
+    <div class="cookie-consent">We use cookies to improve your experience on this website, please accept them.</div>
+    <div class="sidebar">
+      <p>Trending now: <a href="/a">Local team wins the regional championship after extra time</a></p>
+    </div>
+    <main>
+      <div class="article-body">
+        <h1>Council expands bike lanes</h1>
+        ${ARTICLE_TEXT.map((text) => `<p>${text}</p>`).join("\n        ")}
+      </div>
+    </main>
+    <footer><p>Copyright 2024 City News, all rights reserved, do not reproduce.</p></footer>
+  </body>
+</html>`;
+
+describe("extractMainContent", () => {
+  it("keeps the article and drops navigation and footer boilerplate", () => {
+    const { content } = extractMainContent(page, "https://citynews.example/news/bike-lanes?ref=home");
+
+    for (const text of ARTICLE_TEXT) {
+      expect(content).toContain(text);
+    }
+    expect(content).not.toContain("Weather");
+    expect(content).not.toContain("Sports");
+    expect(content).not.toContain("Copyright 2024");
+    expect(content).not.toContain("We use cookies");
+    expect(content).not.toContain("Trending now");
+  });
+
+  it("reads the page's metadata", () => {
+    const { metadata } = extractMainContent(page, "https://citynews.example/news/bike-lanes?ref=home");
+
+    expect(metadata).toEqual({
+      title: "Council expands bike lanes | City News",
+      byline: "Jane Reporter",
+      publishedDate: "2024-05-14T09:00:00Z",
+      canonicalUrl: "https://citynews.example/news/bike-lanes",
+      siteName: "City News",
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import * as cheerio from "cheerio";
+import type { PageMetadata } from "~/types";
+import { turndownService } from "./document-extractors";
+
+/**
+ * Main-content extraction in the spirit of Mozilla's Readability:
+ * paragraphs vote for their parent and grandparent containers,
+ * containers are penalized for link-heavy text and boilerplate-looking
+ * class names, and the best-scoring one wins.
+ */
+
+// Never part of an article
+const STRIPPED_ELEMENTS =
+  "script, style, noscript, iframe, svg, canvas, form, button, input, select, textarea, nav, header, footer, aside";
+
+const UNLIKELY_CANDIDATE =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|cookie|consent|newsletter|subscribe|share|promo/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_CLASS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+// Paragraphs shorter than this are usually captions, bylines or buttons
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const TAG_SCORES: Record<string, number> = {
+  div: 5,
+  article: 10,
+  section: 3,
+  pre: 3,
+  td: 3,
+  blockquote: 3,
+  address: -3,
+  ol: -3,
+  ul: -3,
+  dl: -3,
+  dd: -3,
+  dt: -3,
+  li: -3,
+  form: -3,
+  h1: -5,
+  h2: -5,
+  h3: -5,
+  h4: -5,
+  h5: -5,
+  h6: -5,
+  th: -5,
+};
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const toAbsoluteUrl = (href: string | undefined, baseUrl: string) => {
+  if (!href) {
+    return undefined;
+  }
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+type JsonLdNode = Record<string, unknown>;
+
+// Articles describe themselves in JSON-LD, sometimes nested inside a @graph
+const getJsonLdNodes = ($: cheerio.CheerioAPI): JsonLdNode[] =>
+  $('script[type="application/ld+json"]')
+    .toArray()
+    .flatMap((element) => {
+      try {
+        const parsed = JSON.parse($(element).text()) as JsonLdNode | JsonLdNode[];
+        return Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        return [];
+      }
+    })
+    .flatMap((node) =>
+      Array.isArray(node["@graph"]) ? (node["@graph"] as JsonLdNode[]) : [node],
+    );
+
+const getJsonLdAuthor = (author: unknown): string | undefined => {
+  if (typeof author === "string") {
+    return author;
+  }
+  if (Array.isArray(author)) {
+    const names = author.map(getJsonLdAuthor).filter(Boolean);
+    return names.length ? names.join(", ") : undefined;
+  }
+  if (author && typeof author === "object" && "name" in author) {
+    return typeof author.name === "string" ? author.name : undefined;
+  }
+  return undefined;
+};
+
+const extractMetadata = ($: cheerio.CheerioAPI, url: string): PageMetadata => {
+  const meta = (...selectors: string[]) =>
+    selectors
+      .map((selector) => $(selector).first().attr("content")?.trim())
+      .find(Boolean);
+
+  const jsonLd = getJsonLdNodes($).find(
+    (node) => "datePublished" in node || "headline" in node,
+  );
+
+  const jsonLdString = (key: string) =>
+    typeof jsonLd?.[key] === "string" ? jsonLd[key] : undefined;
+
+  const byline =
+    meta('meta[name="author"]', 'meta[property="article:author"]') ??
+    getJsonLdAuthor(jsonLd?.author) ??
+    ([
+      '[itemprop="author"]',
+      '[rel="author"]',
+      ".byline",
+      ".author",
+    ]
+      .map((selector) => normalizeWhitespace($(selector).first().text()))
+      .find(Boolean));
+
+  return {
+    title:
+      meta('meta[property="og:title"]', 'meta[name="twitter:title"]') ??
+      jsonLdString("headline") ??
+      (normalizeWhitespace($("title").first().text()) ||
+        normalizeWhitespace($("h1").first().text()) ||
+        undefined),
+    byline: byline?.startsWith("http") ? undefined : byline,
+    publishedDate:
+      meta(
+        'meta[property="article:published_time"]',
+        'meta[name="date"]',
+        'meta[name="pubdate"]',
+        'meta[name="publish-date"]',
+        'meta[name="dc.date"]',
+        'meta[name="DC.date.issued"]',
+        'meta[itemprop="datePublished"]',
+      ) ??
+      jsonLdString("datePublished") ??
+      $("time[datetime]").first().attr("datetime"),
+    canonicalUrl:
+      toAbsoluteUrl($('link[rel="canonical"]').attr("href"), url) ??
+      toAbsoluteUrl(meta('meta[property="og:url"]'), url),
+    siteName: meta('meta[property="og:site_name"]'),
+  };
+};
+
+export interface ExtractedContent {
+  content: string;
+  metadata: PageMetadata;
+}
+
+/**
+ * Pull the main content out of an HTML page as markdown,
+ * along with whatever metadata the page declares about itself
+ */
+export const extractMainContent = (
+  html: string,
+  url: string,
+): ExtractedContent => {
+  const $ = cheerio.load(html);
+
+  // Metadata lives in <head> and JSON-LD scripts, so read it before stripping anything
+  const metadata = extractMetadata($, url);
+
+  $(STRIPPED_ELEMENTS).remove();
+  $("body *")
+    .not("article")
+    .each((_, element) => {
+      const matchString = `${$(element).attr("class") ?? ""} ${$(element).attr("id") ?? ""}`;
+      if (
+        UNLIKELY_CANDIDATE.test(matchString) &&
+        !MAYBE_CANDIDATE.test(matchString)
+      ) {
+        $(element).remove();
+      }
+    });
+
+  const paragraphs = $("p, pre, td, blockquote").toArray();
+  type ElementNode = (typeof paragraphs)[number];
+  const scores = new Map<ElementNode, number>();
+
+  const getClassWeight = (element: ElementNode) => {
+    const matchString = `${$(element).attr("class") ?? ""} ${$(element).attr("id") ?? ""}`;
+    return (
+      (POSITIVE_CLASS.test(matchString) ? 25 : 0) -
+      (NEGATIVE_CLASS.test(matchString) ? 25 : 0)
+    );
+  };
+
+  const getLinkDensity = (element: ElementNode) => {
+    const textLength = normalizeWhitespace($(element).text()).length;
+    if (!textLength) {
+      return 0;
+    }
+    const linkLength = $(element)
+      .find("a")
+      .toArray()
+      .reduce((sum, link) => sum + normalizeWhitespace($(link).text()).length, 0);
+    return linkLength / textLength;
+  };
+
+  const addScore = (element: ElementNode, score: number) => {
+    if (!scores.has(element)) {
+      scores.set(
+        element,
+        (TAG_SCORES[element.tagName] ?? 0) + getClassWeight(element),
+      );
+    }
+    scores.set(element, scores.get(element)! + score);
+  };
+
+  for (const paragraph of paragraphs) {
+    const text = normalizeWhitespace($(paragraph).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      continue;
+    }
+
+    // One point for the paragraph, one per comma, and up to three for length
+    const score =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+
+    const [parent, grandparent] = $(paragraph).parents().toArray();
+    if (parent) {
+      addScore(parent, score);
+    }
+    if (grandparent) {
+      addScore(grandparent, score / 2);
+    }
+  }
+
+  let topCandidate: ElementNode | undefined;
+  let topScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - getLinkDensity(element));
+    scores.set(element, adjusted);
+    if (adjusted > topScore) {
+      topCandidate = element;
+      topScore = adjusted;
+    }
+  }
+
+  if (!topCandidate) {
+    return {
+      content: turndownService.turndown($("body").html() ?? "").trim(),
+      metadata,
+    };
+  }
+
+  // Articles are often split across sibling containers, so pull in
+  // siblings that scored well or look like real paragraphs
+  const siblingThreshold = Math.max(10, topScore * 0.2);
+  const parts = $(topCandidate)
+    .parent()
+    .children()
+    .toArray()
+    .filter((sibling) => {
+      if (sibling === topCandidate) {
+        return true;
+      }
+      if ((scores.get(sibling) ?? 0) >= siblingThreshold) {
+        return true;
+      }
+      if (sibling.tagName === "p") {
+        const text = normalizeWhitespace($(sibling).text());
+        const linkDensity = getLinkDensity(sibling);
+        return (
+          (text.length > 80 && linkDensity < 0.25) ||
+          (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text))
+        );
+      }
+      return false;
+    });
+
+  const content = parts
+    .map((part) => turndownService.turndown($.html(part)))
+    .join("\n\n");
+
+  return { content: content.trim(), metadata };
+};
@@ -0,0 +1,70 @@
+import { setTimeout } from "node:timers/promises";
+import { env } from "~/env";
+
+interface HostState {
+  active: number;
+  queue: (() => void)[];
+  // Earliest time the next request to this host may start
+  nextStartAt: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+const getHostState = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, queue: [], nextStartAt: 0 };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+const acquireHostSlot = async (state: HostState) => {
+  if (state.active < env.CRAWLER_MAX_CONCURRENCY_PER_HOST) {
+    state.active++;
+    return;
+  }
+  // The slot is handed straight over by releaseHostSlot
+  await new Promise<void>((resolve) => state.queue.push(resolve));
+};
+
+const releaseHostSlot = (host: string, state: HostState) => {
+  const next = state.queue.shift();
+  if (next) {
+    next();
+    return;
+  }
+
+  state.active--;
+  // Forget idle hosts, unless we still owe them a crawl delay
+  if (state.active === 0 && state.nextStartAt <= Date.now()) {
+    hosts.delete(host);
+  }
+};
+
+/**
+ * Run a request against a host without exceeding its concurrency limit,
+ * spacing request starts at least `crawlDelayMs` apart
+ */
+export const scheduleForHost = async <T>(
+  host: string,
+  crawlDelayMs: number,
+  task: () => Promise<T>,
+): Promise<T> => {
+  const state = getHostState(host);
+  await acquireHostSlot(state);
+
+  try {
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + crawlDelayMs;
+
+    if (startAt > now) {
+      await setTimeout(startAt - now);
+    }
+
+    return await task();
+  } finally {
+    releaseHostSlot(host, state);
+  }
+};
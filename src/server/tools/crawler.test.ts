@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { crawlWebsite } from "./crawler";
+import { clearUrlPolicyCache } from "./url-policy";
+
+vi.mock("~/env", () => ({
+  env: {
+    BROWSER_RENDERING: "never",
+    BROWSER_RENDERING_DOMAINS: {},
+    BROWSER_RENDER_MIN_TEXT_LENGTH: 500,
+    CRAWLER_MAX_CONCURRENCY_PER_HOST: 2,
+    CRAWLER_MAX_CRAWL_DELAY_MS: 10_000,
+    CRAWLER_MAX_REDIRECTS: 5,
+    CRAWLER_MAX_RESPONSE_BYTES: 1_000_000,
+    CRAWLER_TIMEOUT_MS: 10_000,
+    CRAWLER_USER_AGENT: "TestBot/0.1",
+    REDIS_FALLBACK_CACHE_SIZE: 100,
+    SEARCH_PROVIDER: ["serper"],
+  },
+}));
+
+// Redis is down, so crawls are cached in the in-memory fallback
+vi.mock("~/server/redis/client", () => ({
+  getRedis: async () => {
+    throw new Error("Redis is down");
+  },
+  recordRedisFallback: () => undefined,
+}));
+
+vi.mock("./browser-renderer", () => ({
+  renderPage: async () => {
+    throw new Error("No browser in tests");
+  },
+}));
+
+const rules = vi.hoisted(() => ({
+  current: [] as { domain: string; action: "allow" | "block" }[],
+}));
+
+vi.mock("~/server/db/queries", () => ({
+  getUrlPolicyRules: async () => rules.current,
+}));
+
+vi.mock("node:dns/promises", () => ({
+  lookup: async (hostname: string) => [
+    { address: hostname === "metadata.internal" ? "169.254.169.254" : "93.184.216.34", family: 4 },
+  ],
+}));
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const article = `<html><head><title>Article</title></head><body><main>${"<p>Some long article text about the topic at hand.</p>".repeat(20)}</main></body></html>`;
+
+// robots.txt is missing everywhere, pages are served by `pages`
+const serve = (pages: Record<string, () => Response>) => {
+  fetchMock.mockImplementation(async (input) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (url.endsWith("/robots.txt")) {
+      return new Response("", { status: 404 });
+    }
+    return pages[url]?.() ?? new Response("", { status: 404 });
+  });
+};
+
+beforeEach(() => {
+  rules.current = [];
+  clearUrlPolicyCache();
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("crawlWebsite", () => {
+  it("blocks a cached page once an admin blocks its domain", async () => {
+    serve({
+      "https://news.example.com/story": () =>
+        new Response(article, { headers: { "content-type": "text/html" } }),
+    });
+
+    expect(await crawlWebsite({ url: "https://news.example.com/story" })).toMatchObject({
+      success: true,
+    });
+
+    rules.current = [{ domain: "example.com", action: "block" }];
+    clearUrlPolicyCache();
+    fetchMock.mockClear();
+
+    expect(await crawlWebsite({ url: "https://news.example.com/story" })).toMatchObject({
+      success: false,
+      code: "blocked-url",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("refuses a redirect to the metadata address and doesn't cache the refusal", async () => {
+    serve({
+      "https://short.example.org/abc": () =>
+        new Response(null, {
+          status: 302,
+          headers: { location: "http://metadata.internal/latest/meta-data/" },
+        }),
+    });
+
+    expect(await crawlWebsite({ url: "https://short.example.org/abc" })).toMatchObject({
+      success: false,
+      code: "blocked-url",
+    });
+    expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain(
+      "http://metadata.internal/latest/meta-data/",
+    );
+
+    // Once the redirect points somewhere public, the page is crawled
+    serve({
+      "https://short.example.org/abc": () =>
+        new Response(article, { headers: { "content-type": "text/html" } }),
+    });
+
+    expect(await crawlWebsite({ url: "https://short.example.org/abc" })).toMatchObject({
+      success: true,
+    });
+  });
+});
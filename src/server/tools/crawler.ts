@@ -1,21 +1,67 @@
 import * as cheerio from "cheerio";
 import { setTimeout } from "node:timers/promises";
 import robotsParser from "robots-parser";
-import TurndownService from "turndown";
+import { env } from "~/env";
+import { getFixturePage, isFixtureMode } from "~/search-providers/fixture";
 import { cacheWithRedis } from "~/server/redis/redis.ts";
+import type { PageMetadata } from "~/types";
+import { renderPage } from "./browser-renderer";
+import {
+  isCircuitOpen,
+  recordHostFailure,
+  recordHostSuccess,
+} from "./circuit-breaker";
+import { scheduleForHost } from "./crawl-scheduler";
+import { extractMainContent } from "./content-extractor";
+import { detectDocumentType, extractDocument } from "./document-extractors";
+import {
+  checkUrlPolicy,
+  ResponseTooLargeError,
+  safeFetch,
+  UrlPolicyError,
+} from "./url-policy";
 
 export const DEFAULT_MAX_RETRIES = 3;
 const MIN_DELAY_MS = 500; // 0.5 seconds
 const MAX_DELAY_MS = 8000; // 8 seconds
+// Servers asking us to come back later than this get given up on
+const MAX_RETRY_AFTER_MS = 30_000;
+
+// Statuses worth retrying: timeouts, rate limits and temporary server trouble
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
 
 export interface CrawlSuccessResponse {
   success: true;
   data: string;
+  // What the page says about itself, for HTML pages
+  metadata?: PageMetadata;
 }
 
+export type CrawlErrorCode =
+  | "blocked-url"
+  | "robots-disallowed"
+  | "crawl-delay-too-long"
+  | "circuit-open"
+  | "client-error"
+  | "rate-limited"
+  | "server-error"
+  | "timeout"
+  | "network-error"
+  | "render-failed"
+  | "too-large"
+  | "extraction-failed"
+  | "not-in-fixtures";
+
 export interface CrawlErrorResponse {
   success: false;
   error: string;
+  code: CrawlErrorCode;
+  // Whether trying again later might work. Transient failures are never cached
+  transient: boolean;
+  // HTTP status, when the server answered at all
+  status?: number;
+  // Seconds the server asked us to wait, from a Retry-After header
+  retryAfter?: number;
 }
 
 export type CrawlResponse =
@@ -52,71 +98,276 @@ export interface BulkCrawlOptions
   urls: string[];
 }
 
-const turndownService = new TurndownService({
-  headingStyle: "atx",
-  codeBlockStyle: "fenced",
-  emDelimiter: "*",
-});
+type BrowserRenderingMode = "auto" | "always" | "never";
+
+// Domain overrides also cover subdomains, with the most specific domain winning
+const getBrowserRenderingMode = (url: string): BrowserRenderingMode => {
+  const { hostname } = new URL(url);
+  const domain = Object.keys(env.BROWSER_RENDERING_DOMAINS)
+    .filter((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return domain
+    ? env.BROWSER_RENDERING_DOMAINS[domain]!
+    : env.BROWSER_RENDERING;
+};
 
-const extractArticleText = (html: string): string => {
+// Mount points that single-page apps fill in on the client
+const APP_ROOT_SELECTORS = [
+  "#root",
+  "#app",
+  "#__next",
+  "#__nuxt",
+  "[ng-app]",
+  "app-root",
+];
+
+const looksClientRendered = (html: string): boolean => {
   const $ = cheerio.load(html);
-  $(
-    "script, style, nav, header, footer, iframe, noscript",
-  ).remove();
-
-  const articleSelectors = [
-    "article",
-    '[role="main"]',
-    ".post-content",
-    ".article-content",
-    "main",
-    ".content",
-  ];
-
-  let content = "";
-
-  for (const selector of articleSelectors) {
+
+  if (
+    /enable javascript|requires javascript|javascript is (disabled|required)/i.test(
+      $("noscript").text(),
+    )
+  ) {
+    return true;
+  }
+
+  return APP_ROOT_SELECTORS.some((selector) => {
     const element = $(selector);
-    if (element.length) {
-      content = turndownService.turndown(
-        element.html() || "",
-      );
-      break;
-    }
+    return element.length > 0 && !element.text().trim();
+  });
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unknown error";
+
+const isTimeoutError = (error: unknown) =>
+  error instanceof Error &&
+  (error.name === "TimeoutError" || error.name === "AbortError");
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
   }
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
 
-  if (!content) {
-    content = turndownService.turndown(
-      $("body").html() || "",
-    );
+// Let go of a body we won't read so its connection is released. A body
+// that's already being read is released when the read ends.
+const discardBody = async (response: Response) => {
+  if (response.body && !response.body.locked) {
+    await response.body.cancel();
   }
+};
+
+const getHttpError = (response: Response): CrawlErrorResponse => {
+  const { status, statusText } = response;
+  const transient = TRANSIENT_STATUSES.has(status);
 
-  return content.trim();
+  return {
+    success: false,
+    error: `Failed to fetch website: ${status} ${statusText}`,
+    code:
+      status === 429
+        ? "rate-limited"
+        : status === 408
+          ? "timeout"
+          : status >= 500
+            ? "server-error"
+            : "client-error",
+    transient,
+    status,
+    retryAfter: transient
+      ? parseRetryAfter(response.headers.get("retry-after"))
+      : undefined,
+  };
 };
 
-const checkRobotsTxt = async (
+const getNetworkError = (error: unknown): CrawlErrorResponse => {
+  if (error instanceof UrlPolicyError) {
+    return {
+      success: false,
+      error: error.message,
+      code: "blocked-url",
+      transient: false,
+    };
+  }
+  if (error instanceof ResponseTooLargeError) {
+    return {
+      success: false,
+      error: error.message,
+      code: "too-large",
+      transient: false,
+    };
+  }
+  if (isTimeoutError(error)) {
+    return {
+      success: false,
+      error: `Timed out after ${env.CRAWLER_TIMEOUT_MS}ms`,
+      code: "timeout",
+      transient: true,
+    };
+  }
+  return {
+    success: false,
+    error: `Network error: ${getErrorMessage(error)}`,
+    code: "network-error",
+    transient: true,
+  };
+};
+
+/**
+ * Whether a crawl failed in a way that might not happen next time
+ */
+export const isTransientCrawlFailure = (result: CrawlResponse) =>
+  !result.success && result.transient;
+
+const renderWithBrowser = async (
   url: string,
-): Promise<boolean> => {
+): Promise<CrawlResponse> => {
   try {
-    const parsedUrl = new URL(url);
-    const robotsUrl = `${parsedUrl.protocol}//${parsedUrl.host}/robots.txt`;
-    const response = await fetch(robotsUrl);
+    const html = await renderPage(url);
+    const { content, metadata } = extractMainContent(html, url);
+    return {
+      success: true,
+      data: content,
+      metadata,
+    };
+  } catch (error) {
+    if (error instanceof UrlPolicyError) {
+      return getNetworkError(error);
+    }
+    return {
+      success: false,
+      error: `Browser rendering failed: ${getErrorMessage(error)}`,
+      code: "render-failed",
+      transient: true,
+    };
+  }
+};
+
+// Cached per origin, since every page on a site shares the same robots.txt.
+// Server errors throw instead, so a flaky robots.txt isn't cached as "allow all"
+const fetchRobotsTxt = cacheWithRedis(
+  "robotsTxt",
+  async (origin: string): Promise<string> => {
+    const response = await safeFetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": env.CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(env.CRAWLER_TIMEOUT_MS),
+    });
+
+    if (response.status >= 500) {
+      await discardBody(response);
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
 
+    // If no robots.txt exists, assume crawling is allowed
     if (!response.ok) {
-      // If no robots.txt exists, assume crawling is allowed
-      return true;
+      await discardBody(response);
+      return "";
     }
 
-    const robotsTxt = await response.text();
-    const robots = robotsParser(robotsUrl, robotsTxt);
+    return await response.text();
+  },
+  { ttlSeconds: 60 * 60 * 24, staleWhileRevalidateSeconds: 60 * 60 * 24 },
+);
 
-    // Use a common crawler user agent
-    return (
-      robots.isAllowed(url, "LinkedInBot") ?? true
-    );
+interface RobotsRules {
+  allowed: boolean;
+  crawlDelayMs: number;
+}
+
+const getRobotsRules = async (
+  url: string,
+): Promise<RobotsRules> => {
+  try {
+    const { origin } = new URL(url);
+    const robotsTxt = await fetchRobotsTxt(origin);
+    const robots = robotsParser(`${origin}/robots.txt`, robotsTxt);
+
+    return {
+      allowed: robots.isAllowed(url, env.CRAWLER_USER_AGENT) ?? true,
+      // Crawl-delay is in seconds
+      crawlDelayMs:
+        (robots.getCrawlDelay(env.CRAWLER_USER_AGENT) ?? 0) * 1000,
+    };
   } catch (error) {
     // If there's an error checking robots.txt, assume crawling is allowed
-    return true;
+    return { allowed: true, crawlDelayMs: 0 };
+  }
+};
+
+const fetchPage = (url: string) =>
+  safeFetch(url, {
+    headers: { "User-Agent": env.CRAWLER_USER_AGENT },
+    signal: AbortSignal.timeout(env.CRAWLER_TIMEOUT_MS),
+  });
+
+// Turn a successful response into markdown, falling back to a headless
+// browser when an HTML page looks like it needs JavaScript to render
+const extractResponse = async (
+  url: string,
+  response: Response,
+  renderingMode: BrowserRenderingMode,
+  render: () => Promise<CrawlResponse>,
+): Promise<CrawlResponse> => {
+  try {
+    const documentType = detectDocumentType(
+      url,
+      response.headers.get("content-type"),
+    );
+    if (documentType !== "html") {
+      return {
+        success: true,
+        data: await extractDocument(documentType, response, url),
+      };
+    }
+
+    const html = await response.text();
+    const { content: articleText, metadata } = extractMainContent(
+      html,
+      url,
+    );
+
+    if (
+      renderingMode === "auto" &&
+      (articleText.length < env.BROWSER_RENDER_MIN_TEXT_LENGTH ||
+        looksClientRendered(html))
+    ) {
+      console.log(`🌐 Rendering ${url} in a headless browser`);
+      const rendered = await render();
+      // Keep what plain fetch found unless the browser did better
+      if (rendered.success && rendered.data.length > articleText.length) {
+        return rendered;
+      }
+    }
+
+    return {
+      success: true,
+      data: articleText,
+      metadata,
+    };
+  } catch (error) {
+    await discardBody(response);
+    // The body is read under the same timeout and size limit as the request
+    if (isTimeoutError(error) || error instanceof ResponseTooLargeError) {
+      return getNetworkError(error);
+    }
+    return {
+      success: false,
+      error: `Failed to extract content: ${getErrorMessage(error)}`,
+      code: "extraction-failed",
+      transient: false,
+    };
   }
 };
 
@@ -159,7 +410,9 @@ export const bulkCrawlWebsites = async (
   } as BulkCrawlResponse;
 };
 
-export const crawlWebsite = cacheWithRedis(
+// Cached per URL. Callers go through `crawlWebsite`, which checks the URL
+// policy first so rule changes apply to cached pages too
+const cachedCrawlWebsite = cacheWithRedis(
   "crawlWebsite",
   async (
     options: CrawlOptions & { url: string },
@@ -168,62 +421,134 @@ export const crawlWebsite = cacheWithRedis(
       options;
 
     // Check robots.txt before attempting to crawl
-    const isAllowed = await checkRobotsTxt(url);
-    if (!isAllowed) {
+    const { allowed, crawlDelayMs } = await getRobotsRules(url);
+    if (!allowed) {
       return {
         success: false,
         error: `Crawling not allowed by robots.txt for: ${url}`,
+        code: "robots-disallowed",
+        transient: false,
       };
     }
 
+    // Rather skip a page than ignore how slowly the site asked us to crawl it
+    if (crawlDelayMs > env.CRAWLER_MAX_CRAWL_DELAY_MS) {
+      return {
+        success: false,
+        error: `Crawl-delay of ${crawlDelayMs / 1000}s is too long for: ${url}`,
+        code: "crawl-delay-too-long",
+        transient: false,
+      };
+    }
+
+    const { host } = new URL(url);
+    const render = () =>
+      scheduleForHost(host, crawlDelayMs, () => renderWithBrowser(url));
+
+    const renderingMode = getBrowserRenderingMode(url);
+    // Documents like PDFs can't be rendered, only downloaded
+    if (
+      renderingMode === "always" &&
+      detectDocumentType(url, null) === "html"
+    ) {
+      return render();
+    }
+
     let attempts = 0;
 
-    while (attempts < maxRetries) {
+    while (true) {
+      if (isCircuitOpen(host)) {
+        return {
+          success: false,
+          error: `Skipping ${host}, it has been failing repeatedly`,
+          code: "circuit-open",
+          transient: true,
+        };
+      }
+
+      let failure: CrawlErrorResponse;
+
       try {
-        const response = await fetch(url);
+        const response = await scheduleForHost(host, crawlDelayMs, () =>
+          fetchPage(url),
+        );
 
         if (response.ok) {
-          const html = await response.text();
-          const articleText = extractArticleText(html);
-          return {
-            success: true,
-            data: articleText,
-          };
+          recordHostSuccess(host);
+          return await extractResponse(url, response, renderingMode, render);
         }
 
-        attempts++;
-        if (attempts === maxRetries) {
-          return {
-            success: false,
-            error: `Failed to fetch website after ${maxRetries} attempts: ${response.status} ${response.statusText}`,
-          };
-        }
-
-        // Exponential backoff: 0.5s, 1s, 2s, 4s, 8s max
-        const delay = Math.min(
-          MIN_DELAY_MS * Math.pow(2, attempts),
-          MAX_DELAY_MS,
-        );
-        await setTimeout(delay);
+        failure = getHttpError(response);
+        await discardBody(response);
       } catch (error) {
-        attempts++;
-        if (attempts === maxRetries) {
-          return {
-            success: false,
-            error: `Network error after ${maxRetries} attempts: ${error instanceof Error ? error.message : "Unknown error"}`,
-          };
-        }
-        const delay = Math.min(
-          MIN_DELAY_MS * Math.pow(2, attempts),
-          MAX_DELAY_MS,
-        );
-        await setTimeout(delay);
+        failure = getNetworkError(error);
+      }
+
+      if (failure.transient) {
+        recordHostFailure(host);
       }
+
+      attempts++;
+      // Permanent failures like 404 or 403 won't go away by asking again
+      if (!failure.transient || attempts >= maxRetries) {
+        return attempts > 1
+          ? { ...failure, error: `${failure.error} (after ${attempts} attempts)` }
+          : failure;
+      }
+
+      // Exponential backoff: 0.5s, 1s, 2s, 4s, 8s max,
+      // unless the server told us how long to wait
+      const delay =
+        failure.retryAfter !== undefined
+          ? failure.retryAfter * 1000
+          : Math.min(MIN_DELAY_MS * Math.pow(2, attempts), MAX_DELAY_MS);
+
+      if (delay > MAX_RETRY_AFTER_MS) {
+        return failure;
+      }
+
+      await setTimeout(delay);
     }
+  },
+  {
+    // A redirect into a blocked address fails the same way as a blocked
+    // URL, and an admin may allow it later
+    shouldCache: (result) =>
+      !isTransientCrawlFailure(result) &&
+      (result.success || result.code !== "blocked-url"),
+    singleFlight: true,
+  },
+);
+
+export const crawlWebsite = async (
+  options: CrawlOptions & { url: string },
+): Promise<CrawlResponse> => {
+  const { url } = options;
+
+  // Offline runs read pages from the search fixtures instead of the web
+  if (isFixtureMode()) {
+    const page = getFixturePage(url);
+    return page === undefined
+      ? {
+          success: false,
+          error: `No fixture content for: ${url}`,
+          code: "not-in-fixtures",
+          transient: false,
+        }
+      : { success: true, data: page };
+  }
 
+  // Checked on every call rather than cached, so a rule an admin adds
+  // applies straight away
+  const policy = await checkUrlPolicy(url);
+  if (!policy.allowed) {
     return {
       success: false,
-      error: "Maximum retry attempts reached",
+      error: `Not crawling ${url}: ${policy.reason}`,
+      code: "blocked-url",
+      transient: false,
     };
-  },
-);
\ No newline at end of file
+  }
+
+  return cachedCrawlWebsite(options);
+};
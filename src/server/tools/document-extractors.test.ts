@@ -0,0 +1,111 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { detectDocumentType, extractDocument } from "./document-extractors";
+
+// The smallest PDF pdf.js will read: one page drawing one line of text
+const buildPdf = (text: string) => {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${text.length + 31} >>\nstream\nBT /F1 24 Tf 72 700 Td (${text}) Tj ET\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(xref),
+    "%%EOF",
+  ].join("\n");
+
+  return new TextEncoder().encode(pdf);
+};
+
+// A DOCX is a zip of WordprocessingML parts; mammoth needs only these
+const buildDocx = async () => {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`,
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`,
+  );
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>
+    <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Quarterly report</w:t></w:r></w:p>
+    <w:p><w:r><w:t>Revenue grew by twelve percent.</w:t></w:r></w:p>
+  </w:body>
+</w:document>`,
+  );
+  return zip.generateAsync({ type: "uint8array" });
+};
+
+describe("detectDocumentType", () => {
+  it("trusts the content type over the extension", () => {
+    expect(detectDocumentType("https://example.com/report.pdf", "text/html; charset=utf-8")).toBe("html");
+  });
+
+  it("falls back to the extension for octet-stream", () => {
+    expect(detectDocumentType("https://example.com/report.docx", "application/octet-stream")).toBe("docx");
+  });
+});
+
+describe("extractDocument", () => {
+  it("extracts PDF text with a heading linking to each page", async () => {
+    const content = await extractDocument(
+      "pdf",
+      new Response(buildPdf("Hello from a PDF")),
+      "https://example.com/report.pdf",
+    );
+
+    expect(content).toContain("## [Page 1](https://example.com/report.pdf#page=1)");
+    expect(content).toContain("Hello from a PDF");
+  });
+
+  it("converts DOCX to markdown, keeping headings", async () => {
+    const content = await extractDocument(
+      "docx",
+      new Response(await buildDocx()),
+      "https://example.com/report.docx",
+    );
+
+    expect(content).toContain("# Quarterly report");
+    expect(content).toContain("Revenue grew by twelve percent.");
+  });
+
+  it("turns CSV into a markdown table", async () => {
+    const content = await extractDocument(
+      "csv",
+      new Response('name,note\nAda,"says ""hi"""\n'),
+      "https://example.com/people.csv",
+    );
+
+    expect(content).toBe('| name | note |\n| --- | --- |\n| Ada | says "hi" |');
+  });
+});
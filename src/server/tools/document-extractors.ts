@@ -0,0 +1,176 @@
+import mammoth from "mammoth";
+import TurndownService from "turndown";
+import { extractText } from "unpdf";
+
+export const turndownService = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  emDelimiter: "*",
+});
+
+export type DocumentType = "html" | "pdf" | "docx" | "text" | "json" | "csv";
+
+// CSVs can be huge, and the summarizer only needs enough rows to get the gist
+const MAX_CSV_ROWS = 200;
+
+const CONTENT_TYPES: [RegExp, DocumentType][] = [
+  [/^application\/pdf$/, "pdf"],
+  [
+    /^application\/vnd\.openxmlformats-officedocument\.wordprocessingml\.document$/,
+    "docx",
+  ],
+  [/^(text|application)\/csv$/, "csv"],
+  [/^application\/([\w.-]+\+)?json$/, "json"],
+  [/^text\/(plain|markdown)$/, "text"],
+  [/^(text\/html|application\/xhtml\+xml)$/, "html"],
+];
+
+const EXTENSIONS: Partial<Record<string, DocumentType>> = {
+  pdf: "pdf",
+  docx: "docx",
+  csv: "csv",
+  json: "json",
+  txt: "text",
+  md: "text",
+};
+
+/**
+ * Work out what kind of document a URL points at, trusting the
+ * Content-Type header first and falling back to the file extension
+ * when the server doesn't say (or just says "octet-stream")
+ */
+export const detectDocumentType = (
+  url: string,
+  contentType: string | null,
+): DocumentType => {
+  const mimeType = contentType?.split(";")[0]?.trim().toLowerCase();
+
+  if (mimeType) {
+    const match = CONTENT_TYPES.find(([pattern]) => pattern.test(mimeType));
+    if (match) {
+      return match[1];
+    }
+  }
+
+  const extension = new URL(url).pathname.split(".").pop()?.toLowerCase();
+  return (extension ? EXTENSIONS[extension] : undefined) ?? "html";
+};
+
+// Each page gets a heading linking straight to it, so summaries can cite page numbers
+const extractPdf = async (data: ArrayBuffer, url: string) => {
+  const { text: pages } = await extractText(new Uint8Array(data), {
+    mergePages: false,
+  });
+
+  const content = pages
+    .map((text, index) => ({ text: text.trim(), page: index + 1 }))
+    .filter(({ text }) => text)
+    .map(({ text, page }) => `## [Page ${page}](${url}#page=${page})\n\n${text}`)
+    .join("\n\n");
+
+  // Scanned PDFs are just images, and we don't do OCR
+  return content || "This PDF has no extractable text.";
+};
+
+// Headings survive the conversion, so sections can be cited by name
+const extractDocx = async (data: ArrayBuffer) => {
+  const { value: html } = await mammoth.convertToHtml({
+    buffer: Buffer.from(data),
+  });
+  return turndownService.turndown(html);
+};
+
+const extractJson = (text: string) => {
+  try {
+    return `\`\`\`json\n${JSON.stringify(JSON.parse(text), null, 2)}\n\`\`\``;
+  } catch {
+    return text;
+  }
+};
+
+// RFC 4180: fields may be quoted, and quotes inside them are doubled
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const toTableRow = (cells: string[]) =>
+  `| ${cells.map((cell) => cell.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim()).join(" | ")} |`;
+
+const extractCsv = (text: string) => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return "";
+  }
+
+  const table = [
+    toTableRow(header),
+    toTableRow(header.map(() => "---")),
+    ...rows.slice(0, MAX_CSV_ROWS).map(toTableRow),
+  ].join("\n");
+
+  return rows.length > MAX_CSV_ROWS
+    ? `${table}\n\n*Showing the first ${MAX_CSV_ROWS} of ${rows.length} rows.*`
+    : table;
+};
+
+/**
+ * Convert a non-HTML document into markdown
+ */
+export const extractDocument = async (
+  type: Exclude<DocumentType, "html">,
+  response: Response,
+  url: string,
+): Promise<string> => {
+  switch (type) {
+    case "pdf":
+      return extractPdf(await response.arrayBuffer(), url);
+    case "docx":
+      return extractDocx(await response.arrayBuffer());
+    case "json":
+      return extractJson(await response.text());
+    case "csv":
+      return extractCsv(await response.text());
+    case "text":
+      return (await response.text()).trim();
+  }
+};
@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  checkUrlPolicy,
+  clearUrlPolicyCache,
+  resolveRedirects,
+  safeFetch,
+  UrlPolicyError,
+} from "./url-policy";
+
+vi.mock("~/env", () => ({
+  env: {
+    CRAWLER_MAX_REDIRECTS: 5,
+    CRAWLER_MAX_RESPONSE_BYTES: 1_000,
+  },
+}));
+
+const rules = vi.hoisted(() => ({
+  current: [] as { domain: string; action: "allow" | "block" }[],
+}));
+
+vi.mock("~/server/db/queries", () => ({
+  getUrlPolicyRules: async () => rules.current,
+}));
+
+// Hostnames the tests resolve, as a DNS server would answer for them
+const dns = vi.hoisted(() => ({
+  records: {} as Record<string, string[]>,
+}));
+
+vi.mock("node:dns/promises", () => ({
+  lookup: async (hostname: string) => {
+    const addresses = dns.records[hostname];
+    if (!addresses) {
+      throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+    }
+    return addresses.map((address) => ({
+      address,
+      family: address.includes(":") ? 6 : 4,
+    }));
+  },
+}));
+
+const setRules = (next: typeof rules.current) => {
+  rules.current = next;
+  clearUrlPolicyCache();
+};
+
+beforeEach(() => {
+  setRules([]);
+  dns.records = {
+    "example.com": ["93.184.216.34"],
+    "docs.example.com": ["93.184.216.35"],
+    "intranet.corp": ["10.1.2.3"],
+    "wiki.intranet.corp": ["10.1.2.4"],
+    "metadata.google.internal": ["169.254.169.254"],
+    "split.example.net": ["93.184.216.36", "192.168.1.10"],
+  };
+});
+
+describe("checkUrlPolicy", () => {
+  it.each([
+    ["loopback", "http://127.0.0.1/"],
+    ["IPv6 loopback", "http://[::1]/"],
+    ["private 10/8", "http://10.0.0.5/admin"],
+    ["private 172.16/12", "http://172.20.1.1/"],
+    ["private 192.168/16", "http://192.168.0.1/"],
+    ["carrier-grade NAT", "http://100.64.0.1/"],
+    ["link-local", "http://169.254.10.10/"],
+    ["IPv6 link-local", "http://[fe80::1]/"],
+    ["IPv6 unique local", "http://[fd00::1]/"],
+    ["cloud metadata", "http://169.254.169.254/latest/meta-data/"],
+    ["IPv4-mapped private", "http://[::ffff:10.0.0.1]/"],
+    ["unspecified", "http://0.0.0.0/"],
+  ])("blocks %s addresses", async (_, url) => {
+    expect(await checkUrlPolicy(url)).toMatchObject({ allowed: false });
+  });
+
+  it("blocks a hostname that resolves to the metadata address", async () => {
+    expect(await checkUrlPolicy("http://metadata.google.internal/computeMetadata/v1/")).toEqual({
+      allowed: false,
+      reason: "metadata.google.internal resolves to a private or reserved address (169.254.169.254)",
+    });
+  });
+
+  it("blocks a hostname when any of its addresses is private", async () => {
+    expect(await checkUrlPolicy("https://split.example.net/")).toMatchObject({ allowed: false });
+  });
+
+  it("allows public addresses", async () => {
+    expect(await checkUrlPolicy("https://example.com/page")).toEqual({ allowed: true });
+    expect(await checkUrlPolicy("http://8.8.8.8/")).toEqual({ allowed: true });
+  });
+
+  it("blocks other protocols and hosts that don't resolve", async () => {
+    expect(await checkUrlPolicy("file:///etc/passwd")).toMatchObject({ allowed: false });
+    expect(await checkUrlPolicy("ftp://example.com/")).toMatchObject({ allowed: false });
+    expect(await checkUrlPolicy("https://nowhere.invalid/")).toMatchObject({ allowed: false });
+    expect(await checkUrlPolicy("not a url")).toEqual({ allowed: false, reason: "Invalid URL" });
+  });
+});
+
+describe("checkUrlPolicy domain rules", () => {
+  it("blocks a domain and its subdomains", async () => {
+    setRules([{ domain: "example.com", action: "block" }]);
+
+    expect(await checkUrlPolicy("https://example.com/")).toEqual({
+      allowed: false,
+      reason: "example.com is blocked",
+    });
+    expect(await checkUrlPolicy("https://docs.example.com/")).toMatchObject({ allowed: false });
+  });
+
+  it("lets an allow rule through to a private address", async () => {
+    setRules([{ domain: "intranet.corp", action: "allow" }]);
+
+    expect(await checkUrlPolicy("http://wiki.intranet.corp/")).toEqual({ allowed: true });
+  });
+
+  it("lets the most specific rule win", async () => {
+    setRules([
+      { domain: "example.com", action: "block" },
+      { domain: "docs.example.com", action: "allow" },
+      { domain: "intranet.corp", action: "allow" },
+      { domain: "wiki.intranet.corp", action: "block" },
+    ]);
+
+    expect(await checkUrlPolicy("https://docs.example.com/")).toEqual({ allowed: true });
+    expect(await checkUrlPolicy("https://example.com/")).toMatchObject({ allowed: false });
+    expect(await checkUrlPolicy("http://intranet.corp/")).toEqual({ allowed: true });
+    expect(await checkUrlPolicy("http://wiki.intranet.corp/")).toMatchObject({ allowed: false });
+  });
+
+  it("applies rule changes once the cache is cleared", async () => {
+    expect(await checkUrlPolicy("https://example.com/")).toEqual({ allowed: true });
+
+    setRules([{ domain: "example.com", action: "block" }]);
+
+    expect(await checkUrlPolicy("https://example.com/")).toMatchObject({ allowed: false });
+  });
+});
+
+describe("safeFetch", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const redirectTo = (location: string) =>
+    new Response(null, { status: 302, headers: { location } });
+
+  it("refuses a redirect into a blocked range without requesting it", async () => {
+    fetchMock.mockResolvedValueOnce(redirectTo("http://169.254.169.254/latest/meta-data/"));
+
+    await expect(safeFetch("https://example.com/")).rejects.toBeInstanceOf(UrlPolicyError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.com/",
+      expect.objectContaining({ redirect: "manual" }),
+    );
+  });
+
+  it("follows redirects between allowed hosts", async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirectTo("/moved"))
+      .mockResolvedValueOnce(redirectTo("https://docs.example.com/final"))
+      .mockResolvedValueOnce(new Response("hello"));
+
+    const response = await safeFetch("https://example.com/");
+
+    expect(await response.text()).toBe("hello");
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.com/",
+      "https://example.com/moved",
+      "https://docs.example.com/final",
+    ]);
+  });
+
+  it("gives up after too many redirects", async () => {
+    fetchMock.mockImplementation(async () => redirectTo("https://example.com/loop"));
+
+    await expect(safeFetch("https://example.com/")).rejects.toThrow("Too many redirects");
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it("fails bodies over the size limit", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("x".repeat(2_000)));
+
+    const response = await safeFetch("https://example.com/");
+
+    await expect(response.text()).rejects.toThrow("Response is larger than 1000 bytes");
+  });
+});
+
+describe("resolveRedirects", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns where an allowed redirect chain ends", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: "https://docs.example.com/" } }))
+      .mockResolvedValueOnce(new Response("page"));
+
+    expect(await resolveRedirects("https://example.com/")).toBe("https://docs.example.com/");
+  });
+
+  it("throws on a hop into the private network", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 307, headers: { location: "http://intranet.corp/" } }),
+    );
+
+    await expect(resolveRedirects("https://example.com/")).rejects.toThrow(
+      "Blocked http://intranet.corp/",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,264 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { env } from "~/env";
+import { getUrlPolicyRules } from "~/server/db/queries";
+
+/**
+ * Guards the crawler against server-side request forgery: search results
+ * and the model can hand us any URL, including ones pointing at localhost,
+ * the private network or a cloud metadata endpoint.
+ */
+
+export type UrlPolicyResult =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+export class UrlPolicyError extends Error {
+  constructor(
+    readonly url: string,
+    readonly reason: string,
+  ) {
+    super(`Blocked ${url}: ${reason}`);
+    this.name = "UrlPolicyError";
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Response is larger than ${maxBytes} bytes`);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+const ALLOWED_PROTOCOLS = new Set(["http:", "https:"]);
+
+// Loopback, private, link-local (incl. 169.254.169.254 metadata),
+// carrier-grade NAT, multicast and other reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) reach the IPv4 network
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return blockedAddresses.check(mapped, "ipv4");
+  }
+  return blockedAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+};
+
+// Rules change rarely, so don't hit the database for every URL
+const RULES_CACHE_MS = 60_000;
+let cachedRules:
+  | { rules: Map<string, "allow" | "block">; expiresAt: number }
+  | undefined;
+
+const getRules = async () => {
+  if (!cachedRules || cachedRules.expiresAt < Date.now()) {
+    const rules = await getUrlPolicyRules();
+    cachedRules = {
+      rules: new Map(rules.map((rule) => [rule.domain, rule.action])),
+      expiresAt: Date.now() + RULES_CACHE_MS,
+    };
+  }
+  return cachedRules.rules;
+};
+
+/**
+ * Forget the cached domain rules, after an admin changes them
+ */
+export const clearUrlPolicyCache = () => {
+  cachedRules = undefined;
+};
+
+// Rules cover subdomains too, with the most specific domain winning
+const getDomainRule = async (hostname: string) => {
+  let rules: Map<string, "allow" | "block">;
+  try {
+    rules = await getRules();
+  } catch (error) {
+    // Without the rules we still have the address checks to fall back on
+    console.error("Failed to load URL policy rules:", error);
+    return undefined;
+  }
+  const labels = hostname.split(".");
+
+  for (let i = 0; i < labels.length; i++) {
+    const rule = rules.get(labels.slice(i).join("."));
+    if (rule) {
+      return rule;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check whether the crawler may fetch a URL
+ */
+export const checkUrlPolicy = async (url: string): Promise<UrlPolicyResult> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { allowed: false, reason: "Invalid URL" };
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(parsed.protocol)) {
+    return { allowed: false, reason: `${parsed.protocol} URLs are not allowed` };
+  }
+
+  // IPv6 hosts come wrapped in brackets
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+  const rule = await getDomainRule(hostname);
+  if (rule === "block") {
+    return { allowed: false, reason: `${hostname} is blocked` };
+  }
+  if (rule === "allow") {
+    return { allowed: true };
+  }
+
+  // Check every address the name resolves to, not just the first one,
+  // so a public record can't hide a private one
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map(({ address }) => address);
+  } catch {
+    return { allowed: false, reason: `Could not resolve ${hostname}` };
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    return {
+      allowed: false,
+      reason: `${hostname} resolves to a private or reserved address (${blocked})`,
+    };
+  }
+
+  return { allowed: true };
+};
+
+// Fails the body once it grows past the limit, rather than buffering it all
+const limitResponseSize = (response: Response, maxBytes: number) => {
+  if (!response.body) {
+    return response;
+  }
+
+  let bytesRead = 0;
+  const limited = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        if (bytesRead > maxBytes) {
+          controller.error(new ResponseTooLargeError(maxBytes));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  return new Response(limited, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+// Follow redirects by hand, checking the policy before every hop, and
+// return the final response along with the URL it came from
+const fetchFollowingPolicy = async (
+  url: string,
+  init: RequestInit,
+): Promise<{ response: Response; url: string }> => {
+  let currentUrl = url;
+
+  for (let redirects = 0; ; redirects++) {
+    const policy = await checkUrlPolicy(currentUrl);
+    if (!policy.allowed) {
+      throw new UrlPolicyError(currentUrl, policy.reason);
+    }
+
+    const response = await fetch(currentUrl, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl };
+    }
+
+    await response.body?.cancel();
+
+    if (redirects >= env.CRAWLER_MAX_REDIRECTS) {
+      throw new UrlPolicyError(url, "Too many redirects");
+    }
+
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+};
+
+/**
+ * `fetch` that checks the URL policy before every hop of a redirect chain
+ * and caps how much of the body it will read.
+ *
+ * Throws `UrlPolicyError` for blocked URLs. Note that the address is
+ * resolved again when connecting, so this doesn't stop DNS rebinding.
+ */
+export const safeFetch = async (
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> => {
+  const { response } = await fetchFollowingPolicy(url, init);
+
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > env.CRAWLER_MAX_RESPONSE_BYTES) {
+    await response.body?.cancel();
+    throw new ResponseTooLargeError(env.CRAWLER_MAX_RESPONSE_BYTES);
+  }
+  return limitResponseSize(response, env.CRAWLER_MAX_RESPONSE_BYTES);
+};
+
+/**
+ * Where a URL's redirects lead, checking the policy at every hop without
+ * reading the final body. For clients like the headless browser that
+ * follow redirects without letting us see them.
+ *
+ * Throws `UrlPolicyError` if any hop is blocked.
+ */
+export const resolveRedirects = async (
+  url: string,
+  init: RequestInit = {},
+): Promise<string> => {
+  const { response, url: finalUrl } = await fetchFollowingPolicy(url, init);
+  await response.body?.cancel();
+  return finalUrl;
+};
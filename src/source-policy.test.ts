@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { scoreSourceCredibility } from "./source-policy";
+
+const score = (url: string) => scoreSourceCredibility({ url });
+
+describe("scoreSourceCredibility", () => {
+  it("gives a neutral score to an ordinary https site", () => {
+    expect(score("https://example.com/page")).toBe(55);
+  });
+
+  it.each([
+    "https://www.nasa.gov/missions",
+    "https://cs.stanford.edu/",
+    "https://www.army.mil/",
+    "https://www.gov.uk/guidance",
+    "https://www.ox.ac.uk/research",
+    "https://www.u-tokyo.ac.jp/",
+    "https://www.unimelb.edu.au/",
+  ])("boosts government and academic sites: %s", (url) => {
+    expect(score(url)).toBe(80);
+  });
+
+  it.each([
+    "https://scam.ac/",
+    "https://foo.int/",
+    "https://gov.example.com/",
+    "https://edu.example.org/",
+    "https://ac.example.com/",
+    "https://mil.example.net/",
+    "https://www.gov.example/",
+  ])("doesn't boost lookalike domains: %s", (url) => {
+    expect(score(url)).toBe(55);
+  });
+});
@@ -0,0 +1,183 @@
+import type { Citation, SourcePolicy } from "~/types";
+
+export const emptySourcePolicy: SourcePolicy = {
+  includeDomains: [],
+  excludeDomains: [],
+  preferredDomains: [],
+};
+
+// Well-established publishers, journals and reference works
+const REPUTABLE_DOMAINS = [
+  "wikipedia.org",
+  "britannica.com",
+  "reuters.com",
+  "apnews.com",
+  "bbc.co.uk",
+  "bbc.com",
+  "ft.com",
+  "economist.com",
+  "nytimes.com",
+  "theguardian.com",
+  "nature.com",
+  "science.org",
+  "nejm.org",
+  "thelancet.com",
+  "bmj.com",
+  "arxiv.org",
+  "who.int",
+];
+
+// Anyone can publish here, so quality varies wildly
+const USER_GENERATED_DOMAINS = [
+  "reddit.com",
+  "quora.com",
+  "medium.com",
+  "substack.com",
+  "blogspot.com",
+  "wordpress.com",
+  "tumblr.com",
+];
+
+// Content farms: pages written to rank rather than to inform
+const LOW_QUALITY_DOMAINS = [
+  "ehow.com",
+  "answers.com",
+  "ask.com",
+  "reference.com",
+  "hubpages.com",
+  "infobarrel.com",
+  "examiner.com",
+];
+
+// Top-level domains only government, military and US academic sites can register
+const INSTITUTIONAL_TLDS = new Set(["gov", "edu", "mil"]);
+
+// Their counterparts under country-code TLDs, e.g. "gov.uk" or "ac.jp"
+const INSTITUTIONAL_SECOND_LEVEL_LABELS = new Set(["gov", "ac", "edu"]);
+
+const normalizeDomain = (domain: string) =>
+  domain.trim().toLowerCase().replace(/^www\./, "");
+
+const isInstitutionalHostname = (hostname: string) => {
+  const [secondLevel, tld] = hostname.split(".").slice(-2);
+  if (!tld) {
+    return false;
+  }
+  if (INSTITUTIONAL_TLDS.has(tld)) {
+    return true;
+  }
+  return (
+    tld.length === 2 &&
+    secondLevel !== undefined &&
+    INSTITUTIONAL_SECOND_LEVEL_LABELS.has(secondLevel)
+  );
+};
+
+const getHostname = (url: string) => {
+  try {
+    return normalizeDomain(new URL(url).hostname);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Whether a URL is on one of the domains, or a subdomain of one
+ */
+export const matchesDomain = (url: string, domains: string[]): boolean => {
+  const hostname = getHostname(url);
+  if (!hostname) {
+    return false;
+  }
+  return domains
+    .map(normalizeDomain)
+    .some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+};
+
+const unique = (domains: string[]) => [...new Set(domains.map(normalizeDomain))];
+
+/**
+ * Combine a user's default policy with a chat's. The chat's include list
+ * replaces the user's; excluded and preferred domains add up.
+ */
+export const mergeSourcePolicies = (
+  userPolicy?: SourcePolicy | null,
+  chatPolicy?: SourcePolicy | null,
+): SourcePolicy => ({
+  includeDomains: unique(
+    chatPolicy?.includeDomains.length
+      ? chatPolicy.includeDomains
+      : (userPolicy?.includeDomains ?? []),
+  ),
+  excludeDomains: unique([
+    ...(userPolicy?.excludeDomains ?? []),
+    ...(chatPolicy?.excludeDomains ?? []),
+  ]),
+  preferredDomains: unique([
+    ...(userPolicy?.preferredDomains ?? []),
+    ...(chatPolicy?.preferredDomains ?? []),
+  ]),
+});
+
+/**
+ * Drop results the policy doesn't allow, and move preferred domains
+ * to the front without otherwise changing the order
+ */
+export const applySourcePolicy = <T extends { url: string }>(
+  results: T[],
+  policy: SourcePolicy,
+): T[] => {
+  const allowed = results.filter(
+    (result) =>
+      !matchesDomain(result.url, policy.excludeDomains) &&
+      (policy.includeDomains.length === 0 ||
+        matchesDomain(result.url, policy.includeDomains)),
+  );
+
+  return [
+    ...allowed.filter((result) => matchesDomain(result.url, policy.preferredDomains)),
+    ...allowed.filter((result) => !matchesDomain(result.url, policy.preferredDomains)),
+  ];
+};
+
+/**
+ * A rough 0-100 credibility score from the source's domain and, for
+ * academic results, how often it has been cited. Meant as a hint for
+ * the reader, not a verdict.
+ */
+export const scoreSourceCredibility = (
+  source: { url: string; citation?: Citation },
+  policy: SourcePolicy = emptySourcePolicy,
+): number => {
+  const hostname = getHostname(source.url);
+  if (!hostname) {
+    return 0;
+  }
+
+  let score = 50;
+
+  if (isInstitutionalHostname(hostname)) {
+    score += 25;
+  }
+  if (matchesDomain(source.url, REPUTABLE_DOMAINS)) {
+    score += 20;
+  }
+  if (matchesDomain(source.url, policy.preferredDomains)) {
+    score += 15;
+  }
+  if (matchesDomain(source.url, USER_GENERATED_DOMAINS)) {
+    score -= 15;
+  }
+  if (matchesDomain(source.url, LOW_QUALITY_DOMAINS)) {
+    score -= 30;
+  }
+
+  score += source.url.startsWith("https:") ? 5 : -5;
+
+  // 10 citations is worth 5 points, 1000 is worth the maximum 15
+  if (source.citation?.citedBy) {
+    score += Math.min(15, Math.floor(Math.log10(source.citation.citedBy + 1) * 5));
+  }
+
+  return Math.max(0, Math.min(100, score));
+};
@@ -1,7 +1,7 @@
 import { generateText } from "ai";
 import { summarizerModel } from "~/models";
 import { cacheWithRedis } from "~/server/redis/redis";
-import type { SummarizeURLInput, SummarizeURLResult } from "~/types";
+import type { SummarizeURLInput, SummarizeURLResult, UsageMetrics } from "~/types";
 import { messageToString } from "~/utils";
 
 /**
@@ -11,7 +11,7 @@ import { messageToString } from "~/utils";
 const uncachedSummarizeURL = async (
   input: SummarizeURLInput,
   langfuseTraceId?: string,
-  reportUsage?: (description: string, usage: { promptTokens: number; completionTokens: number; totalTokens: number }) => void,
+  reportUsage?: (description: string, usage: UsageMetrics, model: string) => void,
 ): Promise<SummarizeURLResult> => {
   const { conversationHistory, scrapedContent, searchMetadata, query } = input;
 
@@ -38,6 +38,7 @@ Important guidelines:
 - Preserve the integrity of information by keeping details anchored to their original context
 - Create a cohesive narrative rather than disconnected bullet points or lists
 - Use paragraph breaks only when transitioning between major themes
+- When the content is split into pages ("Page 12") or sections, cite the page number or section heading alongside the facts taken from it
 
 Critical Reminder: If content lacks a specific aspect of the research topic, clearly state that in the synthesis, and you should NEVER make up information and NEVER rely on external knowledge.
 
@@ -50,6 +51,9 @@ SOURCE METADATA:
 Title: ${searchMetadata.title}
 URL: ${searchMetadata.url}
 Date: ${searchMetadata.date ?? "Not specified"}
+Author: ${searchMetadata.byline ?? "Not specified"}
+Publisher: ${searchMetadata.siteName ?? "Not specified"}
+Canonical URL: ${searchMetadata.canonicalUrl ?? searchMetadata.url}
 Snippet: ${searchMetadata.snippet}
 
 RAW WEB CONTENT:
@@ -80,7 +84,7 @@ Create a detailed synthesis that captures the essential information from this so
         promptTokens: result.usage.inputTokens || 0,
         completionTokens: result.usage.outputTokens || 0,
         totalTokens: result.usage.totalTokens || 0,
-      });
+      }, summarizerModel.modelId);
     }
 
     return {
@@ -94,17 +98,27 @@ Create a detailed synthesis that captures the essential information from this so
     return {
       summary: `Unable to generate detailed summary due to processing error. Based on search snippet: ${searchMetadata.snippet}`,
       url: searchMetadata.url,
+      failed: true,
     };
   }
 };
 
 /**
  * Cached version of summarizeURL function.
- * Cache key includes the URL, query, and a hash of the content to ensure freshness.
+ * Cache key is a hash of the whole input, so new content or a different
+ * query gets a new summary. Bump the version when the prompt changes.
  */
 export const summarizeURL = cacheWithRedis(
   "summarizeURL",
   uncachedSummarizeURL,
+  {
+    ttlSeconds: 60 * 60 * 24 * 7,
+    version: 2,
+    // The trace ID and usage callback differ on every request
+    getKey: (...[input]) => input,
+    shouldCache: (result) => !result.failed,
+    singleFlight: true,
+  },
 );
 
 /**
@@ -114,7 +128,7 @@ export const summarizeURL = cacheWithRedis(
 export async function summarizeURLs(
   inputs: SummarizeURLInput[],
   langfuseTraceId?: string,
-  reportUsage?: (description: string, usage: { promptTokens: number; completionTokens: number; totalTokens: number }) => void,
+  reportUsage?: (description: string, usage: UsageMetrics, model: string) => void,
 ): Promise<SummarizeURLResult[]> {
   console.log("📝 Starting parallel summarization of", inputs.length, "URLs");
   
@@ -134,6 +148,7 @@ export async function summarizeURLs(
     return inputs.map(input => ({
       summary: `Unable to generate summary due to processing error. Based on search snippet: ${input.searchMetadata.snippet}`,
       url: input.searchMetadata.url,
+      failed: true,
     }));
   }
 } 
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import { SystemContext } from "./system-context";
+import type { SearchHistoryEntry } from "./types";
+
+vi.mock("~/env", () => ({
+  env: {
+    SEARCH_HISTORY_TOKEN_BUDGET: 1_000,
+    SEARCH_RESULTS_COUNT: 3,
+    MAX_PAGES_TO_SCRAPE: 4,
+  },
+}));
+
+// A search whose quick answers alone are about 600 tokens
+const searchWithQuickAnswers = (query: string): SearchHistoryEntry => ({
+  query,
+  results: [
+    {
+      date: "2024-01-01",
+      title: `${query} overview`,
+      url: `https://example.com/${encodeURIComponent(query)}`,
+      snippet: `A short snippet about ${query}.`,
+      summary: "Not scraped - search snippet only.",
+    },
+  ],
+  knowledgeGraph: {
+    title: query,
+    type: "Topic",
+    description: `Knowledge graph for ${query}. `.repeat(40),
+    attributes: { Founded: "1999", Headquarters: "Somewhere" },
+  },
+  peopleAlsoAsk: [
+    {
+      question: `What is ${query}?`,
+      snippet: `People ask about ${query}. `.repeat(20),
+      title: `About ${query}`,
+      url: `https://example.org/${encodeURIComponent(query)}`,
+    },
+  ],
+});
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+describe("SystemContext.getSearchHistory", () => {
+  it("keeps a history that fits the budget as it is", () => {
+    const ctx = new SystemContext([]);
+    ctx.reportSearch(searchWithQuickAnswers("rust"));
+
+    const history = ctx.getSearchHistory();
+
+    expect(history).toContain("### Knowledge graph: rust");
+    expect(history).toContain("### People also ask");
+  });
+
+  it("trims the oldest searches when they alone exceed the budget", () => {
+    const ctx = new SystemContext([]);
+    const queries = ["alpha", "beta", "gamma", "delta", "epsilon", "zeta"];
+    for (const query of queries) {
+      ctx.reportSearch(searchWithQuickAnswers(query));
+    }
+
+    const history = ctx.getSearchHistory();
+
+    expect(estimateTokens(history)).toBeLessThanOrEqual(1_000);
+    // The newest search keeps its quick answers, the oldest lose them
+    expect(history).toContain("### Knowledge graph: zeta");
+    expect(history).not.toContain("### Knowledge graph: alpha");
+    expect(history).toContain('## Query: "zeta"');
+  });
+
+  it("leaves out the oldest searches when dropping quick answers isn't enough", () => {
+    const ctx = new SystemContext([]);
+    for (let index = 0; index < 200; index++) {
+      ctx.reportSearch(searchWithQuickAnswers(`query number ${index}`));
+    }
+
+    const history = ctx.getSearchHistory();
+
+    expect(estimateTokens(history)).toBeLessThanOrEqual(1_000);
+    expect(history).toMatch(/\(\d+ older searches left out to keep this short\)/);
+    expect(history).not.toContain('## Query: "query number 0"');
+    expect(history).toContain('## Query: "query number 199"');
+  });
+});
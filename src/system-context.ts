@@ -1,19 +1,72 @@
 import type { UIMessage } from "ai";
-import type { UsageEntry, UserLocation } from "~/types";
-import { messageToString } from "~/utils";
-
-type SearchResult = {
-  date: string;
+import type { Citation, KnowledgeGraph, PeopleAlsoAsk, ResearchDepth, ResearchPlan, SearchHistoryEntry, SearchLocale, SearchRegion, SearchSource, SourcePolicy, UsageEntry, UsageMetrics, UserLocation } from "~/types";
+import { env } from "~/env";
+import { getResearchDepth } from "~/research-depth";
+import { emptySourcePolicy } from "~/source-policy";
+import { messageToString, normalizeUrl } from "~/utils";
+
+// What searchAndScrape reports in place of a summary when it has none
+export const PAGE_ALREADY_READ = "Already read - see the earlier summary.";
+const PLACEHOLDER_SUMMARIES = new Set([
+  "Failed to generate summary",
+  "Not scraped - search snippet only.",
+  PAGE_ALREADY_READ,
+]);
+
+// From least to most compacted. A search compacted to "snippet" keeps
+// just its list of results, without its quick answers
+const COMPACTION_LEVELS = ["full", "snippet", "omitted"] as const;
+type CompactionLevel = (typeof COMPACTION_LEVELS)[number];
+
+/**
+ * A page the research has found, however many searches found it
+ */
+interface Evidence {
   title: string;
   url: string;
   snippet: string;
-  summary: string; // Changed from scrapedContent to summary
-};
-
-type SearchHistoryEntry = {
-  query: string;
-  results: SearchResult[];
-};
+  date: string;
+  citation?: Citation;
+  // One per search that summarized the page, minus exact repeats
+  summaries: string[];
+  // How much of it still fits in prompts, once the history is compacted
+  detail: CompactionLevel;
+}
+
+// Rough, but close enough to keep prompts in budget: English text
+// averages about four characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const formatCitation = (citation: Citation) =>
+  [
+    citation.publication,
+    citation.citedBy !== undefined ? `cited by ${citation.citedBy}` : undefined,
+    citation.pdfUrl ? `PDF: ${citation.pdfUrl}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+const formatKnowledgeGraph = (knowledgeGraph: KnowledgeGraph) =>
+  [
+    `### Knowledge graph: ${knowledgeGraph.title} (${knowledgeGraph.type})`,
+    knowledgeGraph.description,
+    knowledgeGraph.url,
+    ...Object.entries(knowledgeGraph.attributes).map(
+      ([name, value]) => `- ${name}: ${value}`,
+    ),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+const formatPeopleAlsoAsk = (peopleAlsoAsk: PeopleAlsoAsk[]) =>
+  [
+    `### People also ask`,
+    ...peopleAlsoAsk.map((item) =>
+      [`**${item.question}**`, item.snippet, item.url].join("\n"),
+    ),
+  ].join("\n\n");
 
 export class SystemContext {
   /**
@@ -31,6 +84,18 @@ export class SystemContext {
    */
   private searchHistory: SearchHistoryEntry[] = [];
 
+  /**
+   * How much of each search still fits in prompts, in the same order as
+   * the search history
+   */
+  private searchDetails: { detail: CompactionLevel }[] = [];
+
+  /**
+   * Every page found so far, keyed by normalized URL, in the order they
+   * were first found
+   */
+  private evidence = new Map<string, Evidence>();
+
   /**
    * User's location information
    */
@@ -46,17 +111,92 @@ export class SystemContext {
    */
   private usageEntries: UsageEntry[] = [];
 
-  constructor(conversationUIMessages: UIMessage[], userLocation?: UserLocation) {
+  /**
+   * Which sites research may use
+   */
+  private readonly sourcePolicy: SourcePolicy;
+
+  /**
+   * How many steps, results, pages and tokens this request may use
+   */
+  private readonly researchDepth: ResearchDepth;
+
+  /**
+   * The sub-questions the research is working through, if it was planned
+   */
+  private plan?: ResearchPlan;
+
+  constructor(
+    conversationUIMessages: UIMessage[],
+    userLocation?: UserLocation,
+    sourcePolicy: SourcePolicy = emptySourcePolicy,
+    researchDepth: ResearchDepth = getResearchDepth(),
+  ) {
     this.conversationUIMessages = conversationUIMessages;
     this.userLocation = userLocation;
+    this.sourcePolicy = sourcePolicy;
+    this.researchDepth = researchDepth;
   }
 
   shouldStop() {
-    const shouldStop = this.step >= 5; // Reduced from 10 to 5 for better performance
-    console.log(`🛑 shouldStop() check: step=${this.step}, shouldStop=${shouldStop}`);
+    const { maxSteps, maxTokens } = this.researchDepth;
+    const tokensUsed = this.getTotalTokensUsed();
+    const shouldStop = this.step >= maxSteps || tokensUsed >= maxTokens;
+    console.log(`🛑 shouldStop() check: step=${this.step}/${maxSteps}, tokens=${tokensUsed}/${maxTokens}, shouldStop=${shouldStop}`);
     return shouldStop;
   }
 
+  getResearchDepth(): ResearchDepth {
+    return this.researchDepth;
+  }
+
+  setPlan(plan: ResearchPlan) {
+    this.plan = plan;
+  }
+
+  getPlan(): ResearchPlan | undefined {
+    return this.plan;
+  }
+
+  /**
+   * Tick off plan items by their 1-based number. Returns whether any
+   * item changed, so callers only resend the plan when it did.
+   */
+  resolvePlanItems(itemNumbers: number[]): boolean {
+    if (!this.plan) {
+      return false;
+    }
+
+    let changed = false;
+    const items = this.plan.items.map((item, index) => {
+      if (!item.resolved && itemNumbers.includes(index + 1)) {
+        changed = true;
+        return { ...item, resolved: true };
+      }
+      return item;
+    });
+
+    if (changed) {
+      this.plan = { items };
+    }
+    return changed;
+  }
+
+  getPlanContext(): string {
+    if (!this.plan) {
+      return "No plan - work from the question directly.";
+    }
+
+    return this.plan.items
+      .map((item, index) =>
+        [
+          `${index + 1}. [${item.resolved ? "x" : " "}] ${item.question}`,
+          ...(item.query && !item.resolved ? [`(suggested search: "${item.query}")`] : []),
+        ].join(" "),
+      )
+      .join("\n");
+  }
+
   incrementStep() {
     console.log(`📈 incrementStep(): ${this.step} → ${this.step + 1}`);
     this.step++;
@@ -73,30 +213,161 @@ export class SystemContext {
       hasSummaries: search.results.some(r => r.summary && r.summary !== "Failed to generate summary")
     });
     this.searchHistory.push(search);
+    this.searchDetails.push({ detail: "full" });
+
+    for (const result of search.results) {
+      const key = normalizeUrl(result.url);
+      const evidence = this.evidence.get(key) ?? {
+        title: result.title,
+        url: result.url,
+        snippet: result.snippet,
+        date: result.date,
+        citation: result.citation,
+        summaries: [],
+        detail: "full",
+      };
+
+      if (!PLACEHOLDER_SUMMARIES.has(result.summary) && !evidence.summaries.includes(result.summary)) {
+        evidence.summaries.push(result.summary);
+      }
+      evidence.date ||= result.date;
+      evidence.citation ??= result.citation;
+
+      this.evidence.set(key, evidence);
+    }
+  }
+
+  /**
+   * Whether an earlier search already summarized this page
+   */
+  hasEvidence(url: string): boolean {
+    return (this.evidence.get(normalizeUrl(url))?.summaries.length ?? 0) > 0;
   }
 
+  /**
+   * The searches so far and what they found, for prompts. Each page
+   * appears once, with the summaries from every search that found it.
+   * When that runs over SEARCH_HISTORY_TOKEN_BUDGET the oldest pages are
+   * cut back to their snippet, then the oldest searches lose their quick
+   * answers, and then the oldest pages and searches are left out, until
+   * it fits.
+   */
   getSearchHistory(): string {
-    console.log("📖 SystemContext.getSearchHistory:", {
-      entriesCount: this.searchHistory.length,
-      totalResults: this.searchHistory.reduce((sum, entry) => sum + entry.results.length, 0)
-    });
-    return this.searchHistory
-      .map((search) =>
-        [
-          `## Query: "${search.query}"`,
-          ...search.results.map((result) =>
+    const evidenceNumbers = new Map(
+      [...this.evidence.keys()].map((key, index) => [key, index + 1]),
+    );
+
+    const render = () => {
+      const searches = this.searchHistory.map((search, index) => ({
+        search,
+        detail: this.searchDetails[index]?.detail ?? "full",
+      }));
+      const omittedSearches = searches.filter(({ detail }) => detail === "omitted").length;
+      const pages = [...this.evidence.values()].map((evidence, index) => ({ evidence, number: index + 1 }));
+      const omitted = pages.filter(({ evidence }) => evidence.detail === "omitted").length;
+
+      return [
+        ...(omittedSearches > 0 ? [`(${omittedSearches} older searches left out to keep this short)`] : []),
+        ...searches
+          .filter(({ detail }) => detail !== "omitted")
+          .map(({ search, detail }) =>
             [
-              `### ${result.date} - ${result.title}`,
-              result.url,
-              result.snippet,
-              `<url_summary>`,
-              result.summary,
-              `</url_summary>`,
+              `## Query: "${search.query}"`,
+              // Quick answers come first: they're often enough on their own for simple facts
+              ...(detail === "full" && search.knowledgeGraph ? [formatKnowledgeGraph(search.knowledgeGraph)] : []),
+              ...(detail === "full" && search.peopleAlsoAsk?.length ? [formatPeopleAlsoAsk(search.peopleAlsoAsk)] : []),
+              search.results.length > 0
+                ? search.results
+                    .map((result) => `- [${evidenceNumbers.get(normalizeUrl(result.url))}] ${result.title}`)
+                    .join("\n")
+                : "No results.",
             ].join("\n\n"),
           ),
-        ].join("\n\n"),
-      )
-      .join("\n\n");
+        ...(pages.length > 0 ? [`## Pages found`] : []),
+        ...pages
+          .filter(({ evidence }) => evidence.detail !== "omitted")
+          .map(({ evidence, number }) =>
+            [
+              `### [${number}] ${evidence.date} - ${evidence.title}`,
+              evidence.url,
+              ...(evidence.citation ? [`Citation: ${formatCitation(evidence.citation)}`] : []),
+              evidence.snippet,
+              ...(evidence.detail === "full" && evidence.summaries.length > 0
+                ? [`<url_summary>`, evidence.summaries.join("\n\n"), `</url_summary>`]
+                : []),
+            ].join("\n\n"),
+          ),
+        ...(omitted > 0 ? [`(${omitted} older pages left out to keep this short)`] : []),
+      ].join("\n\n");
+    };
+
+    const pages = [...this.evidence.values()];
+    const passes = [
+      ["snippet", pages],
+      ["snippet", this.searchDetails],
+      ["omitted", pages],
+      ["omitted", this.searchDetails],
+    ] as const;
+
+    // Compaction only ever goes further, so each call starts from where
+    // the last one left off
+    let history = render();
+    for (const [detail, items] of passes) {
+      for (const item of items) {
+        if (estimateTokens(history) <= env.SEARCH_HISTORY_TOKEN_BUDGET) {
+          break;
+        }
+        if (COMPACTION_LEVELS.indexOf(item.detail) < COMPACTION_LEVELS.indexOf(detail)) {
+          item.detail = detail;
+          history = render();
+        }
+      }
+    }
+
+    console.log("📖 SystemContext.getSearchHistory:", {
+      entriesCount: this.searchHistory.length,
+      pages: this.evidence.size,
+      compacted: [...this.evidence.values()].filter((evidence) => evidence.detail !== "full").length,
+      compactedSearches: this.searchDetails.filter(({ detail }) => detail !== "full").length,
+      estimatedTokens: estimateTokens(history),
+    });
+    return history;
+  }
+
+  getSearchHistoryEntries(): SearchHistoryEntry[] {
+    return this.searchHistory;
+  }
+
+  /**
+   * Every page the searches turned up, once each
+   */
+  getSources(): SearchSource[] {
+    return [...this.evidence.values()].map((evidence) => ({
+      title: evidence.title,
+      url: evidence.url,
+      snippet: evidence.snippet,
+      date: evidence.date || undefined,
+      citation: evidence.citation,
+    }));
+  }
+
+  /**
+   * Related searches suggested by the search engine that we haven't run yet
+   */
+  getRelatedSearches(): string[] {
+    const searched = new Set(this.searchHistory.map((search) => search.query.toLowerCase()));
+    const related = new Map<string, string>();
+
+    for (const search of this.searchHistory) {
+      for (const query of search.relatedSearches ?? []) {
+        const key = query.toLowerCase();
+        if (!searched.has(key) && !related.has(key)) {
+          related.set(key, query);
+        }
+      }
+    }
+
+    return [...related.values()];
   }
 
   // Keep these methods for backward compatibility during transition
@@ -136,6 +407,10 @@ export class SystemContext {
     return this.conversationUIMessages;
   }
 
+  getUserLocation(): UserLocation | undefined {
+    return this.userLocation;
+  }
+
   getUserLocationContext(): string {
     if (!this.userLocation) {
       return "";
@@ -163,6 +438,62 @@ export class SystemContext {
     return `About the origin of user's request:
 ${locationParts.join("\n")}
 
+`;
+  }
+
+  /**
+   * Localization for a search, based on where the request came from.
+   * 'global' keeps the user's language but drops any location bias,
+   * 'local' narrows results down to their city
+   */
+  getSearchLocale(region: SearchRegion = "country"): SearchLocale {
+    if (!this.userLocation) {
+      return {};
+    }
+
+    const { city, country, language } = this.userLocation;
+
+    if (region === "global") {
+      return { language };
+    }
+
+    return {
+      country: country?.toLowerCase(),
+      language,
+      location:
+        region === "local" && city
+          ? [city, country && regionNames.of(country)].filter(Boolean).join(", ")
+          : undefined,
+    };
+  }
+
+  getSourcePolicy(): SourcePolicy {
+    return this.sourcePolicy;
+  }
+
+  getSourcePolicyContext(): string {
+    const { includeDomains, excludeDomains, preferredDomains } = this.sourcePolicy;
+    const policyParts = [];
+
+    if (includeDomains.length > 0) {
+      policyParts.push(`- only use: ${includeDomains.join(", ")}`);
+    }
+
+    if (excludeDomains.length > 0) {
+      policyParts.push(`- never use: ${excludeDomains.join(", ")}`);
+    }
+
+    if (preferredDomains.length > 0) {
+      policyParts.push(`- prefer: ${preferredDomains.join(", ")}`);
+    }
+
+    if (policyParts.length === 0) {
+      return "";
+    }
+
+    return `The user has restricted which sites to research (results from other sites are dropped):
+${policyParts.join("\n")}
+
 `;
   }
 
@@ -185,9 +516,10 @@ ${locationParts.join("\n")}
       .join("\n");
   }
 
-  reportUsage(description: string, usage: { promptTokens: number; completionTokens: number; totalTokens: number }) {
+  reportUsage(description: string, usage: UsageMetrics, model: string) {
     this.usageEntries.push({
       description,
+      model,
       promptTokens: usage.promptTokens,
       completionTokens: usage.completionTokens,
       totalTokens: usage.totalTokens,
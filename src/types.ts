@@ -7,8 +7,11 @@ export type OurMessage = UIMessage<
     newAction: Action;
     sources: SearchSource[];
     usage: { totalTokens: number };
+    tokenBudget: TokenBudget;
     newChatCreated: { chatId: string };
     clarification: ClarificationAction;
+    cachedAnswer: CachedAnswerInfo;
+    plan: ResearchPlan;
     text: { content: string };
   }
 >;
@@ -51,6 +54,8 @@ export type UserLocation = {
   longitude?: string;
   city?: string;
   country?: string;
+  // Preferred language from the Accept-Language header, e.g. "en"
+  language?: string;
 };
 
 export interface User {
@@ -61,26 +66,135 @@ export interface User {
   isAdmin: boolean;
 }
 
+// Which kind of search to run
+export type SearchVertical = "web" | "news" | "scholar" | "images" | "places";
+
+// How far back to restrict results
+export type SearchDateRange = "day" | "week" | "month" | "year";
+
+// How much to bias results towards where the user is:
+// nowhere, their country, or their city
+export type SearchRegion = "global" | "country" | "local";
+
+// Localization hints passed on to the search providers
+export interface SearchLocale {
+  // ISO 3166-1 alpha-2 country code, lowercase (e.g. "gb")
+  country?: string;
+  // ISO 639-1 language code (e.g. "en")
+  language?: string;
+  // Free-text location, e.g. "London, United Kingdom"
+  location?: string;
+}
+
+// Academic metadata for scholar results
+export interface Citation {
+  // Authors, venue and year, e.g. "J Smith, A Jones - Nature, 2021"
+  publication?: string;
+  year?: number;
+  citedBy?: number;
+  pdfUrl?: string;
+}
+
 export interface SearchResult {
   title: string;
   url: string;
   snippet: string;
   position: number;
   date?: string;
+  // Publisher name, for news results
+  source?: string;
+  citation?: Citation;
+  imageUrl?: string;
 }
 
-export interface WebSearchResponse {
+export interface KnowledgeGraph {
+  title: string;
+  type: string;
+  description?: string;
+  // Where the description came from
+  url?: string;
+  attributes: Record<string, string>;
+}
+
+export interface PeopleAlsoAsk {
+  question: string;
+  snippet: string;
+  title: string;
+  url: string;
+}
+
+// Quick answers some providers return alongside the organic results
+export interface SearchAnswers {
+  knowledgeGraph?: KnowledgeGraph;
+  peopleAlsoAsk?: PeopleAlsoAsk[];
+  relatedSearches?: string[];
+}
+
+// A search result merged from one or more search providers
+export interface FusedSearchResult extends SearchResult {
+  // Names of every provider that returned this result
+  providers: string[];
+}
+
+export interface WebSearchResponse extends SearchAnswers {
   query: string;
   results: SearchResult[];
   totalResults: number;
 }
 
+export interface FusedSearchResponse extends SearchAnswers {
+  query: string;
+  results: FusedSearchResult[];
+  totalResults: number;
+  // Providers that were queried but failed
+  failedProviders: string[];
+}
+
+// How thoroughly to research a question, chosen per message
+export type ResearchMode = "quick" | "standard" | "deep";
+
+export interface ResearchDepth {
+  mode: ResearchMode;
+  // Search steps before answering with whatever we've found
+  maxSteps: number;
+  // Search results requested per query
+  resultsPerQuery: number;
+  // Pages scraped and summarized per query
+  pagesToScrape: number;
+  // Tokens the request may spend before answering with whatever we've found
+  maxTokens: number;
+}
+
+// A sub-question the research has to answer, in the order planned
+export interface ResearchPlanItem {
+  question: string;
+  // A search to start with. Items the user adds while reviewing have none
+  query?: string;
+  resolved: boolean;
+}
+
+// The question broken down before researching it, ticked off as
+// evidence comes in
+export interface ResearchPlan {
+  items: ResearchPlanItem[];
+  // Research is paused until the user approves (and maybe edits) the plan
+  awaitingApproval?: boolean;
+}
+
 export interface ContinueAction {
   type: "continue";
   title: string;
   reasoning: string;
-  query: string;
+  // Searched in parallel, e.g. one per product in a comparison
+  queries: string[];
+  // Whether to scrape and summarize the result pages, or rely on search snippets alone
+  scrape?: boolean;
+  vertical?: SearchVertical;
+  dateRange?: SearchDateRange;
+  region?: SearchRegion;
   feedback?: string;
+  // 1-based numbers of plan items the evidence so far answers
+  resolvedPlanItems?: number[];
   step?: number;
   maxSteps?: number;
 }
@@ -90,6 +204,7 @@ export interface AnswerAction {
   title: string;
   reasoning: string;
   feedback?: string;
+  resolvedPlanItems?: number[];
   step?: number;
   maxSteps?: number;
 }
@@ -104,6 +219,25 @@ export interface ClarificationAction {
 }
 
 // URL Summarization types
+// Which sites research may use. Domains cover their subdomains too
+export interface SourcePolicy {
+  // When non-empty, only these domains are used
+  includeDomains: string[];
+  // Never used
+  excludeDomains: string[];
+  // Ranked ahead of other results
+  preferredDomains: string[];
+}
+
+// Metadata a page declares about itself (meta tags, JSON-LD, <link rel="canonical">)
+export interface PageMetadata {
+  title?: string;
+  byline?: string;
+  publishedDate?: string;
+  canonicalUrl?: string;
+  siteName?: string;
+}
+
 export interface SummarizeURLInput {
   conversationHistory: UIMessage[];
   scrapedContent: string;
@@ -112,6 +246,9 @@ export interface SummarizeURLInput {
     url: string;
     snippet: string;
     date?: string;
+    byline?: string;
+    canonicalUrl?: string;
+    siteName?: string;
   };
   query: string;
 }
@@ -119,6 +256,8 @@ export interface SummarizeURLInput {
 export interface SummarizeURLResult {
   summary: string;
   url: string;
+  // The summarizer errored and the summary is a fallback from the snippet
+  failed?: boolean;
 }
 
 // Source display types
@@ -127,16 +266,73 @@ export interface SearchSource {
   url: string;
   snippet: string;
   favicon?: string;
+  // Search providers that found this source
+  providers?: string[];
+  date?: string;
+  citation?: Citation;
+  imageUrl?: string;
+  // 0-100 estimate of how trustworthy the source is
+  credibility?: number;
+}
+
+// A search the agent ran, with the summaries of the pages it read
+export interface SearchHistoryResult {
+  date: string;
+  title: string;
+  url: string;
+  snippet: string;
+  citation?: Citation;
+  summary: string;
+}
+
+export type SearchHistoryEntry = {
+  query: string;
+  results: SearchHistoryResult[];
+} & SearchAnswers;
+
+// Shown on an answer reused from an earlier, similar question
+export interface CachedAnswerInfo {
+  // The question the answer was originally researched for
+  question: string;
+  // ISO timestamp of when it was researched
+  cachedAt: string;
+  // Cosine similarity between the two questions' embeddings
+  similarity: number;
 }
 
 // Token usage tracking types
 export interface UsageEntry {
   description: string;
+  // Id of the model that was called, used to look up its price
+  model: string;
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
 }
 
+// Aggregated token spend, as reported by the usage API
+export interface UsageSpend {
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  since: string;
+  total: UsageSpend;
+  byChat: (UsageSpend & { chatId: string | null; title: string | null })[];
+  byDay: (UsageSpend & { day: string })[];
+  byUser: (UsageSpend & { userId: string; name: string | null })[];
+}
+
+// Monthly token budget for a user
+export interface TokenBudget {
+  // Calendar month the budget applies to, e.g. "2025-07"
+  period: string;
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
 // Legacy annotation type - will be removed as we migrate to data parts
 export type OurMessageAnnotation = 
   | {
@@ -25,6 +25,10 @@ export function sanitizeTitle(content: string): string {
   return truncateText(firstLine?.trim() || "New Research", 50);
 }
 
+// The most sub-questions a research plan can have, as many as the steps
+// deep research takes
+export const MAX_PLAN_ITEMS = 10;
+
 export function isNewChatCreated(
   data: unknown,
 ): data is {
@@ -57,4 +61,53 @@ export function messageToString(message: UIMessage): string {
   return "";
 }
 
- 
\ No newline at end of file
+/**
+ * Combine message lists into one conversation with each id once. A later
+ * copy of a message replaces the earlier one in its original position, so
+ * the client resending the full history doesn't duplicate it.
+ */
+export function mergeMessages<T extends UIMessage>(...lists: T[][]): T[] {
+  const merged: T[] = [];
+  const positions = new Map<string, number>();
+
+  for (const message of lists.flat()) {
+    const position = message.id ? positions.get(message.id) : undefined;
+
+    if (position !== undefined) {
+      merged[position] = message;
+      continue;
+    }
+
+    if (message.id) {
+      positions.set(message.id, merged.length);
+    }
+    merged.push(message);
+  }
+
+  return merged;
+}
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAM_PATTERN = /^(utm_|fbclid$|gclid$|mc_cid$|mc_eid$|ref$)/;
+
+/**
+ * Normalize a URL so the same page found via different links compares equal.
+ * Ignores protocol, "www.", fragments, trailing slashes and tracking params.
+ * Returns the input unchanged if it isn't a valid URL.
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+    return `${host}${parsed.port ? `:${parsed.port}` : ""}${path}${query}`;
+  } catch {
+    return url;
+  }
+}